@@ -19,20 +19,27 @@
  */
 
 import ControlTray from './components/console/control-tray/ControlTray';
+import LogInspector from './components/console/log-inspector/LogInspector';
 import ErrorScreen from './components/demo/ErrorScreen';
 import StreamingConsole from './components/demo/streaming-console/StreamingConsole';
 
 import Header from './components/Header';
 import Sidebar from './components/Sidebar';
 import { LiveAPIProvider } from './contexts/LiveAPIContext';
-import { useUI } from './lib/state';
+import ApiKeyDialog from './components/ApiKeyDialog';
+import { useApiKeyPrompt, useUI } from './lib/state';
+import {
+  ApiKeyProvider,
+  BrokerTokenProvider,
+} from './lib/auth-token-provider';
 
-const API_KEY = process.env.GEMINI_API_KEY as string;
-if (typeof API_KEY !== 'string') {
-  throw new Error(
-    'Missing required environment variable: REACT_APP_GEMINI_API_KEY'
-  );
-}
+// Live sessions use short-lived tokens from the broker. Without a broker the
+// user is asked for a key at runtime, so no key is built into the bundle.
+const authProvider = new BrokerTokenProvider(
+  process.env.LIVE_TOKEN_BROKER_URL as string,
+  async () =>
+    new ApiKeyProvider(await useApiKeyPrompt.getState().requestKey())
+);
 
 /**
  * Main application component that provides a streaming interface for Live API.
@@ -43,10 +50,12 @@ function App() {
   
   return (
     <div className="App" data-theme={theme}>
-      <LiveAPIProvider apiKey={API_KEY}>
+      <LiveAPIProvider auth={authProvider}>
         <ErrorScreen />
+        <ApiKeyDialog />
         <Header />
         <Sidebar />
+        <LogInspector />
         <div className="streaming-console">
           <main>
             <div className="main-app-area">
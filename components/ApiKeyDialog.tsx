@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { FormEvent, useState } from 'react';
+import { useApiKeyPrompt } from '@/lib/state';
+import Modal from './Modal';
+
+/**
+ * Asks for a Gemini API key when no token broker is reachable. The key is
+ * only kept in memory for this tab.
+ */
+export default function ApiKeyDialog() {
+  const { open, submitKey, cancel } = useApiKeyPrompt();
+  const [key, setKey] = useState('');
+
+  if (!open) return null;
+
+  const onSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!key.trim()) return;
+    submitKey(key.trim());
+    setKey('');
+  };
+
+  return (
+    <Modal onClose={cancel}>
+      <form className="api-key-dialog" onSubmit={onSubmit}>
+        <h2>Enter API Key</h2>
+        <p>
+          No token service is available for this deployment. Enter a Gemini API
+          key to start the session. It is not stored or sent anywhere except
+          to the Gemini API.
+        </p>
+        <div className="form-field">
+          <label htmlFor="api-key">Gemini API key</label>
+          <input
+            id="api-key"
+            type="password"
+            autoComplete="off"
+            autoFocus
+            value={key}
+            onChange={e => setKey(e.target.value)}
+          />
+        </div>
+        <div className="modal-actions">
+          <button type="button" onClick={cancel} className="cancel-button">
+            Cancel
+          </button>
+          <button type="submit" className="save-button" disabled={!key.trim()}>
+            Connect
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -7,7 +7,7 @@ import { useUI } from '@/lib/state';
 import cn from 'classnames';
 
 export default function Header() {
-  const { toggleSidebar, theme, toggleTheme } = useUI();
+  const { toggleSidebar, theme, toggleTheme, isLogInspectorOpen, toggleLogInspector } = useUI();
 
   return (
     <header>
@@ -30,6 +30,13 @@ export default function Header() {
             {theme === 'dark' ? 'light_mode' : 'dark_mode'}
           </span>
         </button>
+        <button
+          className={cn('settings-button', { active: isLogInspectorOpen })}
+          onClick={toggleLogInspector}
+          aria-label="Log Inspector"
+        >
+          <span className="icon header-icon settings-icon">terminal</span>
+        </button>
         <button
           className="settings-button"
           onClick={toggleSidebar}
@@ -3,10 +3,54 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { useSettings, useUI, VoiceStyle } from '@/lib/state';
+import { OutputMode, useMicrophoneSettings, useOutputRouting, useSendStatsStore, useSettings, useUI, VoiceStyle } from '@/lib/state';
 import c from 'classnames';
 import { useLiveAPIContext } from '@/contexts/LiveAPIContext';
 import { SUPPORTED_LANGUAGES, AVAILABLE_VOICES } from '@/lib/constants';
+import { loadSessionRecording } from '@/lib/session-recorder';
+import { useLatencyMetrics } from '@/hooks/media/use-latency-metrics';
+import { useOutputDevices } from '@/hooks/media/use-output-devices';
+import { useMicrophones } from '@/hooks/media/use-microphones';
+import { OutputRouting, supportsOutputSelection } from '@/lib/output-devices';
+import { VoicePreset } from '@/lib/voice-processing';
+import { PadPreset } from '@/lib/pad-engine';
+
+const LATENCY_LABELS = {
+  transcription: 'Source → transcription',
+  response: 'Source → interpreter audio',
+  playback: 'Source → playback',
+};
+
+const formatMs = (ms: number | null) => (ms === null ? '–' : `${Math.round(ms)} ms`);
+
+const PAD_PRESETS: Array<{ preset: PadPreset; label: string }> = [
+  { preset: 'drone-d', label: 'Drone in D' },
+  { preset: 'drone-c', label: 'Drone in C' },
+  { preset: 'drone-f', label: 'Drone in F' },
+  { preset: 'drone-a', label: 'Drone in A' },
+  { preset: 'noise', label: 'Filtered Noise Bed' },
+  { preset: 'evolving', label: 'Slow Evolving Chord' },
+];
+
+const OUTPUT_ROUTINGS: Array<{ routing: OutputRouting; label: string }> = [
+  { routing: 'mixed', label: 'Voice and pad together' },
+  { routing: 'split-channels', label: 'Voice left, pad right' },
+  { routing: 'split-devices', label: 'Voice and pad on separate devices' },
+];
+
+const UPLOAD_BUDGETS = [
+  { kbps: 500, label: '500 kbps' },
+  { kbps: 1000, label: '1 Mbps' },
+  { kbps: 2000, label: '2 Mbps' },
+  { kbps: 0, label: 'Unlimited' },
+];
+
+const FRAME_BUDGETS = [
+  { frames: 30, label: '30 frames / min' },
+  { frames: 60, label: '60 frames / min' },
+  { frames: 120, label: '120 frames / min' },
+  { frames: 0, label: 'Unlimited' },
+];
 
 export default function Sidebar() {
   const { isSidebarOpen, toggleSidebar } = useUI();
@@ -14,13 +58,60 @@ export default function Sidebar() {
     language, setLanguage, 
     voice, setVoice, 
     voiceStyle, setVoiceStyle,
+    voicePreset, setVoicePreset,
+    targetLufs, setTargetLufs,
     backgroundPadEnabled, setBackgroundPadEnabled,
     backgroundPadVolume, setBackgroundPadVolume,
+    padPreset, setPadPreset,
+    padCutoffHz, setPadCutoffHz,
+    padDetuneCents, setPadDetuneCents,
+    padSidechainDepthDb, setPadSidechainDepthDb,
     mediaUrl, setMediaUrl,
     systemPrompt, setSystemPrompt,
-    sourceVolume, setSourceVolume
+    sourceVolume, setSourceVolume,
+    duckingEnabled, setDuckingEnabled,
+    duckLevel, setDuckLevel,
+    duckReleaseMs, setDuckReleaseMs,
+    additionalLanguages, setAdditionalLanguages,
+    uploadBudgetKbps, setUploadBudgetKbps,
+    maxFramesPerMinute, setMaxFramesPerMinute,
+    activityMode, setActivityMode,
+    outputMode, setOutputMode,
+    tabInputGain, setTabInputGain,
+    micInputGain, setMicInputGain,
+    vadThresholdDb, setVadThresholdDb,
+    vadHangoverMs, setVadHangoverMs,
+    dubStems, setDubStems,
+    dubIncludeSource, setDubIncludeSource,
+    maxOutputLagMs, setMaxOutputLagMs,
+    catchUpRate, setCatchUpRate,
   } = useSettings();
-  const { connected } = useLiveAPIContext();
+  const {
+    connected,
+    recording, startRecording, stopRecording,
+    replaying, replaySession,
+    playbackLag,
+    voiceLoudness,
+    dubbing,
+  } = useLiveAPIContext();
+  const {
+    routing, setRouting,
+    voiceDeviceId, setVoiceDeviceId,
+    padDeviceId, setPadDeviceId,
+    voiceDeviceUnavailable, padDeviceUnavailable,
+  } = useOutputRouting();
+  const outputDevices = useOutputDevices();
+  const {
+    deviceId: microphoneId, setDeviceId: setMicrophoneId,
+    echoCancellation, setEchoCancellation,
+    noiseSuppression, setNoiseSuppression,
+    autoGainControl, setAutoGainControl,
+  } = useMicrophoneSettings();
+  const microphones = useMicrophones();
+  const canSelectOutput = supportsOutputSelection();
+  const latency = useLatencyMetrics();
+  const sendStats = useSendStatsStore(state => state.stats);
+  const frameStats = useSendStatsStore(state => state.frames);
 
   return (
     <>
@@ -47,7 +138,7 @@ export default function Sidebar() {
             </div>
             
             <div style={{marginBottom: '1rem'}}>
-                 <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Source Volume (YouTube)</label>
+                 <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Source Volume (YouTube / Video)</label>
                  <div style={{display: 'flex', alignItems: 'center', gap: '10px'}}>
                      <span style={{fontSize: '0.8rem', minWidth: '30px'}}>{sourceVolume}%</span>
                      <input 
@@ -63,6 +154,68 @@ export default function Sidebar() {
                     Lower this to separate source audio from interpretation.
                  </p>
             </div>
+
+            <div style={{marginBottom: '1rem'}}>
+                 <div style={{display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px'}}>
+                   <label style={{fontSize: '0.85rem'}}>Duck While Interpreting</label>
+                   <label className="switch" style={{position: 'relative', display: 'inline-block', width: '40px', height: '24px'}}>
+                     <input
+                        type="checkbox"
+                        checked={duckingEnabled}
+                        onChange={e => setDuckingEnabled(e.target.checked)}
+                        style={{opacity: 0, width: 0, height: 0}}
+                     />
+                     <span
+                       style={{
+                         position: 'absolute', cursor: 'pointer', top: 0, left: 0, right: 0, bottom: 0,
+                         backgroundColor: duckingEnabled ? 'var(--accent-blue)' : 'var(--Neutral-30)',
+                         transition: '.4s', borderRadius: '24px'
+                       }}
+                     >
+                       <span style={{
+                         position: 'absolute', content: '""', height: '16px', width: '16px',
+                         left: duckingEnabled ? '20px' : '4px', bottom: '4px',
+                         backgroundColor: 'white', transition: '.4s', borderRadius: '50%'
+                       }}></span>
+                     </span>
+                   </label>
+                 </div>
+                 {duckingEnabled && (
+                   <div style={{display: 'flex', flexDirection: 'column', gap: '0.75rem'}}>
+                     <div>
+                       <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                         Duck Level: {duckLevel}%
+                       </label>
+                       <input
+                          type="range"
+                          min="0"
+                          max="100"
+                          step="5"
+                          value={duckLevel}
+                          onChange={e => setDuckLevel(parseInt(e.target.value, 10))}
+                          style={{width: '100%', cursor: 'pointer'}}
+                       />
+                     </div>
+                     <div>
+                       <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                         Release: {duckReleaseMs} ms
+                       </label>
+                       <input
+                          type="range"
+                          min="0"
+                          max="3000"
+                          step="100"
+                          value={duckReleaseMs}
+                          onChange={e => setDuckReleaseMs(parseInt(e.target.value, 10))}
+                          style={{width: '100%', cursor: 'pointer'}}
+                       />
+                     </div>
+                   </div>
+                 )}
+                 <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                    Lowers the source and the ambient pad while the interpreter speaks.
+                 </p>
+            </div>
           </div>
 
           <div className="sidebar-section">
@@ -112,11 +265,33 @@ export default function Sidebar() {
                 />
               </div>
 
+              <div style={{marginBottom: '1rem'}}>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Output</label>
+                <select
+                  value={outputMode}
+                  onChange={e => setOutputMode(e.target.value as OutputMode)}
+                  disabled={connected}
+                  title={connected ? 'Stop streaming to change the output' : undefined}
+                  style={{
+                    appearance: 'none',
+                    backgroundImage: `var(--select-arrow)`,
+                    backgroundRepeat: 'no-repeat',
+                    backgroundPosition: 'right 12px center',
+                    backgroundSize: '1em',
+                    paddingRight: '30px'
+                  }}
+                >
+                  <option value="voice">Dubbed Voice</option>
+                  <option value="subtitles">Subtitles Only (Silent)</option>
+                </select>
+              </div>
+
               <div style={{marginBottom: '1rem'}}>
                 <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Voice Model</label>
                 <select
                   value={voice}
                   onChange={e => setVoice(e.target.value)}
+                  disabled={outputMode === 'subtitles'}
                   style={{
                     appearance: 'none',
                     backgroundImage: `var(--select-arrow)`,
@@ -139,6 +314,7 @@ export default function Sidebar() {
                 <select
                   value={voiceStyle}
                   onChange={e => setVoiceStyle(e.target.value as VoiceStyle)}
+                  disabled={outputMode === 'subtitles'}
                   style={{
                     appearance: 'none',
                     backgroundImage: `var(--select-arrow)`,
@@ -153,6 +329,90 @@ export default function Sidebar() {
                   <option value="dramatic">Dramatic (Slow)</option>
                 </select>
               </div>
+
+              <div style={{marginTop: '1rem'}}>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Voice Processing</label>
+                <select
+                  value={voicePreset}
+                  onChange={e => setVoicePreset(e.target.value as VoicePreset)}
+                  disabled={outputMode === 'subtitles'}
+                  style={{
+                    appearance: 'none',
+                    backgroundImage: `var(--select-arrow)`,
+                    backgroundRepeat: 'no-repeat',
+                    backgroundPosition: 'right 12px center',
+                    backgroundSize: '1em',
+                    paddingRight: '30px'
+                  }}
+                >
+                  <option value="broadcast">Broadcast (Compressed, Present)</option>
+                  <option value="booth">Booth (Bright, for Headphones)</option>
+                  <option value="flat">Flat (Level Only)</option>
+                </select>
+                <label style={{display: 'block', margin: '12px 0 8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                  Loudness Target: {targetLufs} LUFS
+                </label>
+                <input
+                  type="range"
+                  min="-30"
+                  max="-10"
+                  step="1"
+                  value={targetLufs}
+                  onChange={e => setTargetLufs(parseInt(e.target.value, 10))}
+                  disabled={outputMode === 'subtitles'}
+                  style={{width: '100%', cursor: 'pointer'}}
+                />
+              </div>
+
+              <div style={{marginTop: '1rem'}}>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Additional Languages</label>
+                {additionalLanguages.map((channel, i) => (
+                  <div key={i} style={{display: 'flex', gap: '6px', marginBottom: '6px', alignItems: 'center'}}>
+                    <select
+                      value={channel.language}
+                      onChange={e => setAdditionalLanguages(additionalLanguages.map((c, j) => j === i ? { ...c, language: e.target.value } : c))}
+                      style={{flex: 2}}
+                    >
+                      {SUPPORTED_LANGUAGES.filter(lang =>
+                        lang === channel.language ||
+                        (lang !== language && !additionalLanguages.some(c => c.language === lang))
+                      ).map(lang => (
+                        <option key={lang} value={lang}>{lang}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={channel.voice}
+                      onChange={e => setAdditionalLanguages(additionalLanguages.map((c, j) => j === i ? { ...c, voice: e.target.value } : c))}
+                      style={{flex: 1}}
+                    >
+                      {AVAILABLE_VOICES.map(v => (
+                        <option key={v} value={v}>{v}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setAdditionalLanguages(additionalLanguages.filter((_, j) => j !== i))}
+                      className="close-button"
+                      title="Remove language"
+                    >
+                      <span className="icon">close</span>
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => {
+                    const next = SUPPORTED_LANGUAGES.find(lang =>
+                      lang !== language && !additionalLanguages.some(c => c.language === lang)
+                    );
+                    if (next) setAdditionalLanguages([...additionalLanguages, { language: next, voice }]);
+                  }}
+                  style={{padding: '0.5rem 0.75rem', borderRadius: '8px', border: '1px solid var(--border-color)', background: 'var(--bg-panel-secondary)', color: 'var(--text-main)', cursor: 'pointer', fontSize: '0.8rem'}}
+                >
+                  Add Language
+                </button>
+                <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                  Each language runs its own session from the same screen capture.
+                </p>
+              </div>
             </fieldset>
           </div>
 
@@ -185,23 +445,477 @@ export default function Sidebar() {
                </div>
                
                {backgroundPadEnabled && (
-                 <div>
-                   <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
-                     Volume: {Math.round(backgroundPadVolume * 100)}%
-                   </label>
-                   <input 
-                      type="range" 
-                      min="0" 
-                      max="0.5" 
-                      step="0.01" 
-                      value={backgroundPadVolume}
-                      onChange={(e) => setBackgroundPadVolume(parseFloat(e.target.value))}
-                      style={{width: '100%', cursor: 'pointer'}}
-                   />
+                 <div style={{display: 'flex', flexDirection: 'column', gap: '0.75rem'}}>
+                   <div>
+                     <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>Preset</label>
+                     <select
+                       value={padPreset}
+                       onChange={e => setPadPreset(e.target.value as PadPreset)}
+                       style={{width: '100%'}}
+                     >
+                       {PAD_PRESETS.map(({ preset, label }) => (
+                         <option key={preset} value={preset}>{label}</option>
+                       ))}
+                     </select>
+                   </div>
+                   <div>
+                     <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                       Volume: {Math.round(backgroundPadVolume * 100)}%
+                     </label>
+                     <input 
+                        type="range" 
+                        min="0" 
+                        max="0.5" 
+                        step="0.01" 
+                        value={backgroundPadVolume}
+                        onChange={(e) => setBackgroundPadVolume(parseFloat(e.target.value))}
+                        style={{width: '100%', cursor: 'pointer'}}
+                     />
+                   </div>
+                   <div>
+                     <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                       Filter Cutoff: {padCutoffHz} Hz
+                     </label>
+                     <input
+                        type="range"
+                        min="100"
+                        max="3000"
+                        step="50"
+                        value={padCutoffHz}
+                        onChange={e => setPadCutoffHz(parseInt(e.target.value, 10))}
+                        style={{width: '100%', cursor: 'pointer'}}
+                     />
+                   </div>
+                   {padPreset !== 'noise' && (
+                     <div>
+                       <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                         Detune: ±{padDetuneCents} cents
+                       </label>
+                       <input
+                          type="range"
+                          min="0"
+                          max="30"
+                          step="1"
+                          value={padDetuneCents}
+                          onChange={e => setPadDetuneCents(parseInt(e.target.value, 10))}
+                          style={{width: '100%', cursor: 'pointer'}}
+                       />
+                     </div>
+                   )}
+                   <div>
+                     <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                       Sidechain Ducking: {padSidechainDepthDb ? `-${padSidechainDepthDb} dB` : 'Off'}
+                     </label>
+                     <input
+                        type="range"
+                        min="0"
+                        max="24"
+                        step="1"
+                        value={padSidechainDepthDb}
+                        onChange={e => setPadSidechainDepthDb(parseInt(e.target.value, 10))}
+                        style={{width: '100%', cursor: 'pointer'}}
+                     />
+                     <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                       Lowers the pad with the interpreter voice. Off, it is ducked along with the source.
+                     </p>
+                   </div>
                  </div>
                )}
             </div>
           </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Output</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Routing</label>
+                <select
+                  value={routing}
+                  onChange={e => setRouting(e.target.value as OutputRouting)}
+                  style={{width: '100%'}}
+                >
+                  {OUTPUT_ROUTINGS.map(option => (
+                    <option
+                      key={option.routing}
+                      value={option.routing}
+                      disabled={option.routing === 'split-devices' && !canSelectOutput}
+                    >
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>
+                  {routing === 'split-devices' ? 'Voice Device' : 'Output Device'}
+                </label>
+                <select
+                  value={voiceDeviceId}
+                  onChange={e => setVoiceDeviceId(e.target.value)}
+                  disabled={!canSelectOutput}
+                  style={{width: '100%'}}
+                >
+                  <option value="">System Default</option>
+                  {outputDevices.map(device => (
+                    <option key={device.deviceId} value={device.deviceId}>
+                      {device.label || 'Unnamed device'}
+                    </option>
+                  ))}
+                </select>
+                {voiceDeviceUnavailable && (
+                  <p style={{fontSize: '0.75rem', color: 'var(--accent-red)', marginTop: '4px'}}>
+                    This device is unavailable, playing on the system default.
+                  </p>
+                )}
+              </div>
+              {routing === 'split-devices' && (
+                <div>
+                  <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Pad Device</label>
+                  <select
+                    value={padDeviceId}
+                    onChange={e => setPadDeviceId(e.target.value)}
+                    style={{width: '100%'}}
+                  >
+                    <option value="">System Default</option>
+                    {outputDevices.map(device => (
+                      <option key={device.deviceId} value={device.deviceId}>
+                        {device.label || 'Unnamed device'}
+                      </option>
+                    ))}
+                  </select>
+                  {padDeviceUnavailable && (
+                    <p style={{fontSize: '0.75rem', color: 'var(--accent-red)', marginTop: '4px'}}>
+                      This device is unavailable, playing on the system default.
+                    </p>
+                  )}
+                </div>
+              )}
+              <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)'}}>
+                {canSelectOutput
+                  ? 'Kept for next time. Device names appear once the page may use the microphone or screen.'
+                  : 'This browser plays everything on the system default device.'}
+              </p>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Microphone</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Input Device</label>
+                <select
+                  value={microphoneId}
+                  onChange={e => setMicrophoneId(e.target.value)}
+                  style={{width: '100%'}}
+                >
+                  <option value="">System Default</option>
+                  {microphones.map(device => (
+                    <option key={device.deviceId} value={device.deviceId}>
+                      {device.label || 'Unnamed microphone'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', marginBottom: '4px'}}>
+                  <input
+                    type="checkbox"
+                    checked={echoCancellation}
+                    onChange={e => setEchoCancellation(e.target.checked)}
+                  />
+                  Echo cancellation
+                </label>
+                <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', marginBottom: '4px'}}>
+                  <input
+                    type="checkbox"
+                    checked={noiseSuppression}
+                    onChange={e => setNoiseSuppression(e.target.checked)}
+                  />
+                  Noise suppression
+                </label>
+                <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem'}}>
+                  <input
+                    type="checkbox"
+                    checked={autoGainControl}
+                    onChange={e => setAutoGainControl(e.target.checked)}
+                  />
+                  Automatic gain control
+                </label>
+                <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                  Used in the microphone input modes, changes apply right away.
+                </p>
+              </div>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Tab + Microphone Mix</label>
+                <div style={{display: 'flex', flexDirection: 'column', gap: '0.75rem'}}>
+                  <div>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                      Tab Audio: {tabInputGain}%
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="200"
+                      step="5"
+                      value={tabInputGain}
+                      onChange={e => setTabInputGain(parseInt(e.target.value, 10))}
+                      style={{width: '100%', cursor: 'pointer'}}
+                    />
+                  </div>
+                  <div>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                      Microphone: {micInputGain}%
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="200"
+                      step="5"
+                      value={micInputGain}
+                      onChange={e => setMicInputGain(parseInt(e.target.value, 10))}
+                      style={{width: '100%', cursor: 'pointer'}}
+                    />
+                  </div>
+                </div>
+                <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                  Balances a live host against the video. The tray shows a level per source.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Speech Detection</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Turn Detection</label>
+                <select
+                  value={activityMode}
+                  onChange={e => setActivityMode(e.target.value as typeof activityMode)}
+                  disabled={connected}
+                  style={{width: '100%'}}
+                >
+                  <option value="auto">Server (Automatic)</option>
+                  <option value="manual">Client (Send Speech Only)</option>
+                </select>
+                <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                  Client detection skips silence, saving tokens. Applies to the next session.
+                </p>
+              </div>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                  Threshold: {vadThresholdDb} dB
+                </label>
+                <input
+                  type="range"
+                  min="-70"
+                  max="-20"
+                  step="1"
+                  value={vadThresholdDb}
+                  onChange={e => setVadThresholdDb(parseInt(e.target.value, 10))}
+                  style={{width: '100%', cursor: 'pointer'}}
+                />
+              </div>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                  Hangover: {vadHangoverMs} ms
+                </label>
+                <input
+                  type="range"
+                  min="100"
+                  max="2000"
+                  step="50"
+                  value={vadHangoverMs}
+                  onChange={e => setVadHangoverMs(parseInt(e.target.value, 10))}
+                  style={{width: '100%', cursor: 'pointer'}}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Playback Sync</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                  Max Lag: {(maxOutputLagMs / 1000).toFixed(1)} s
+                </label>
+                <input
+                  type="range"
+                  min="500"
+                  max="5000"
+                  step="100"
+                  value={maxOutputLagMs}
+                  onChange={e => setMaxOutputLagMs(parseInt(e.target.value, 10))}
+                  style={{width: '100%', cursor: 'pointer'}}
+                />
+              </div>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.8rem', color: 'var(--text-secondary)'}}>
+                  Catch-up Speed: {catchUpRate.toFixed(2)}x
+                </label>
+                <input
+                  type="range"
+                  min="1.05"
+                  max="1.5"
+                  step="0.05"
+                  value={catchUpRate}
+                  onChange={e => setCatchUpRate(parseFloat(e.target.value))}
+                  style={{width: '100%', cursor: 'pointer'}}
+                />
+                <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                  When the interpreter falls further behind than this, its voice speeds up without changing pitch.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Session Recording</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <button
+                onClick={recording ? stopRecording : startRecording}
+                disabled={!recording && (!connected || replaying)}
+                style={{padding: '0.75rem', borderRadius: '8px', border: '1px solid var(--border-color)', background: 'var(--bg-panel-secondary)', color: 'var(--text-main)', cursor: 'pointer'}}
+              >
+                {recording ? 'Stop & Download Recording' : 'Record Session'}
+              </button>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Replay Session File</label>
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  disabled={connected}
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (!file) return;
+                    try {
+                      replaySession(await loadSessionRecording(file));
+                    } catch (err) {
+                      console.error('Failed to load session recording', err);
+                    }
+                  }}
+                  style={{width: '100%', fontSize: '0.8rem', color: 'var(--text-secondary)'}}
+                />
+                <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                  {replaying ? 'Replaying recorded session...' : 'Plays a recorded session back without using quota.'}
+                </p>
+              </div>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.85rem'}}>Dubbed Audio Export</label>
+                <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', marginBottom: '4px'}}>
+                  <input
+                    type="checkbox"
+                    checked={dubIncludeSource}
+                    onChange={e => setDubIncludeSource(e.target.checked)}
+                    disabled={dubbing}
+                  />
+                  Include source audio
+                </label>
+                <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem'}}>
+                  <input
+                    type="checkbox"
+                    checked={dubStems}
+                    onChange={e => setDubStems(e.target.checked)}
+                    disabled={dubbing}
+                  />
+                  Separate stems (source, interpreter, pad)
+                </label>
+                <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                  Record from the tray. Downloads WAV files that line up from the moment recording started.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Diagnostics</h4>
+            <table style={{width: '100%', fontSize: '0.8rem', borderCollapse: 'collapse'}}>
+              <thead>
+                <tr style={{color: 'var(--text-secondary)', textAlign: 'left'}}>
+                  <th style={{fontWeight: 'normal'}}>Latency</th>
+                  <th style={{fontWeight: 'normal'}}>p50</th>
+                  <th style={{fontWeight: 'normal'}}>p95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(LATENCY_LABELS) as Array<keyof typeof LATENCY_LABELS>).map(metric => (
+                  <tr key={metric} title={`${latency[metric].count} samples`}>
+                    <td style={{padding: '4px 0'}}>{LATENCY_LABELS[metric]}</td>
+                    <td>{formatMs(latency[metric].p50)}</td>
+                    <td>{formatMs(latency[metric].p95)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div style={{marginTop: '1rem', fontSize: '0.8rem'}}>
+              <div style={{display: 'flex', justifyContent: 'space-between', color: 'var(--text-secondary)', marginBottom: '4px'}}>
+                <span>Output lag</span>
+                <span title={playbackLag ? `Jitter buffer ${playbackLag.jitterMs} ms` : undefined}>
+                  {playbackLag
+                    ? `${playbackLag.lagMs} ms${playbackLag.rate > 1 ? ` · catching up ${playbackLag.rate.toFixed(2)}x` : ''}`
+                    : '–'}
+                </span>
+              </div>
+              <div style={{display: 'flex', justifyContent: 'space-between', color: 'var(--text-secondary)', marginBottom: '4px'}}>
+                <span>Voice loudness</span>
+                <span title={`Target ${targetLufs} LUFS`}>
+                  {voiceLoudness?.lufs != null
+                    ? `${voiceLoudness.lufs.toFixed(1)} LUFS · ${voiceLoudness.gainDb >= 0 ? '+' : ''}${voiceLoudness.gainDb.toFixed(1)} dB`
+                    : '–'}
+                </span>
+              </div>
+              <div style={{display: 'flex', justifyContent: 'space-between', color: 'var(--text-secondary)', marginBottom: '4px'}}>
+                <span>Upload</span>
+                <span>
+                  {sendStats
+                    ? `audio ${Math.round(sendStats.audioKbps)} · video ${Math.round(sendStats.videoKbps)} kbps`
+                    : '–'}
+                </span>
+              </div>
+              <div style={{display: 'flex', justifyContent: 'space-between', color: 'var(--text-secondary)', marginBottom: '4px'}}>
+                <span>Screen frames</span>
+                <span title={frameStats ? `${frameStats.bursts} scene changes · last change ${Math.round(frameStats.change * 100)}%` : undefined}>
+                  {frameStats
+                    ? `${frameStats.sent} sent · ${frameStats.skipped} unchanged${frameStats.overBudget > 0 ? ` · ${frameStats.overBudget} over budget` : ''}`
+                    : '–'}
+                </span>
+              </div>
+              {sendStats && (sendStats.framesDropped > 0 || sendStats.framesDownsized > 0 || sendStats.audioDroppedMs > 0) && (
+                <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginBottom: '4px'}}>
+                  {sendStats.framesDropped} frames dropped, {sendStats.framesDownsized} downsized, {sendStats.audioDroppedMs} ms audio dropped
+                </p>
+              )}
+              <label style={{display: 'block', marginBottom: '4px'}}>Upload Budget</label>
+              <select
+                value={uploadBudgetKbps}
+                onChange={e => setUploadBudgetKbps(Number(e.target.value))}
+                style={{width: '100%'}}
+              >
+                {UPLOAD_BUDGETS.map(({ kbps, label }) => (
+                  <option key={kbps} value={kbps}>{label}</option>
+                ))}
+              </select>
+              <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                Per session. Audio always goes first, screen frames get what is left.
+              </p>
+              <label style={{display: 'block', marginTop: '1rem', marginBottom: '4px'}}>Frame Budget</label>
+              <select
+                value={maxFramesPerMinute}
+                onChange={e => setMaxFramesPerMinute(Number(e.target.value))}
+                style={{width: '100%'}}
+              >
+                {FRAME_BUDGETS.map(({ frames, label }) => (
+                  <option key={frames} value={frames}>{label}</option>
+                ))}
+              </select>
+              <p style={{fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '4px'}}>
+                Unchanged frames are skipped, scene changes and new captions are captured three times a second.
+              </p>
+            </div>
+          </div>
         </div>
       </aside>
     </>
@@ -23,18 +23,40 @@ import cn from 'classnames';
 import { memo, ReactNode, useEffect, useRef } from 'react';
 import { useLiveAPIContext } from '../../../contexts/LiveAPIContext';
 import AudioVisualizer from '@/components/visualizer/AudioVisualizer';
-import { useSettings } from '@/lib/state';
+import { InputMode, useChannelsStore, useSettings, useUI, useUsageStore } from '@/lib/state';
+import { estimateCost, formatCost, formatTokens } from '@/lib/usage';
 import { SUPPORTED_LANGUAGES } from '@/lib/constants';
 
+const INPUT_MODES: Array<{ mode: InputMode; label: string }> = [
+  { mode: 'mic', label: 'Microphone' },
+  { mode: 'tab', label: 'Tab / Screen' },
+  { mode: 'both', label: 'Tab + Microphone' },
+];
+
+function renderInputLevel(volume: number, title: string, source?: string) {
+  return (
+    <span key={title} className={cn('input-level', source)} title={title}>
+      <span
+        className="input-level-fill"
+        style={{height: `${Math.min(100, Math.round(volume * 300))}%`}}
+      />
+    </span>
+  );
+}
+
 export type ControlTrayProps = {
   children?: ReactNode;
 };
 
 function ControlTray({ children }: ControlTrayProps) {
   const connectButtonRef = useRef<HTMLButtonElement>(null);
-  const { language, setLanguage } = useSettings();
+  const inputSelectRef = useRef<HTMLSelectElement>(null);
+  const { language, setLanguage, additionalLanguages, listenLanguage, setListenLanguage, outputMode, inputMode, setInputMode } = useSettings();
+  const usage = useUsageStore(state => state.usage);
+  const channels = useChannelsStore(state => state.channels);
+  const { isVisualizerDual, toggleVisualizerDual, isInputPickerOpen, setInputPickerOpen } = useUI();
 
-  const { connected, connect, disconnect, isVolumeEnabled, setIsVolumeEnabled, volume } = useLiveAPIContext();
+  const { connected, reconnecting, speaking, connect, disconnect, isVolumeEnabled, setIsVolumeEnabled, outputSpectrum, inputSpectrum, inputVolume, inputSourceVolumes, dubbing, startDubbing, stopDubbing } = useLiveAPIContext();
 
   useEffect(() => {
     if (!connected && connectButtonRef.current) {
@@ -42,14 +64,41 @@ function ControlTray({ children }: ControlTrayProps) {
     }
   }, [connected]);
 
+  // Asked for by the error screen after the source could not be captured
+  useEffect(() => {
+    const select = inputSelectRef.current;
+    if (!isInputPickerOpen || !select) return;
+    select.focus();
+    try {
+      // Not in every browser, focus alone still points at the select
+      (select as HTMLSelectElement & { showPicker?: () => void }).showPicker?.();
+    } catch (e) {
+      // Opening needs a user gesture, which may have expired
+    }
+  }, [isInputPickerOpen]);
+
+  const onInputModeChange = (mode: InputMode) => {
+    setInputMode(mode);
+    if (isInputPickerOpen) {
+      setInputPickerOpen(false);
+      if (language) connect();
+    }
+  };
+
   const connectButtonTitle = connected
     ? 'Stop streaming'
     : !language
     ? 'Select a language to start'
+    : !inputMode
+    ? 'Select an input to start'
     : 'Start streaming';
 
-  // Disable play button if connected or if no language is selected (when disconnected)
-  const isPlayDisabled = !connected && !language;
+  // Disable play button if no language or input is selected (when disconnected)
+  const isPlayDisabled = !connected && (!language || !inputMode);
+
+  const subtitles = outputMode === 'subtitles';
+
+  const mainStatus = reconnecting ? 'reconnecting' : connected ? 'connected' : 'disconnected';
 
   return (
     <section className="control-tray">
@@ -64,6 +113,19 @@ function ControlTray({ children }: ControlTrayProps) {
           </span>
         </button>
 
+        {!subtitles && (
+          <button
+            className={cn('action-button', { dubbing, disabled: !connected && !dubbing })}
+            onClick={dubbing ? stopDubbing : startDubbing}
+            disabled={!connected && !dubbing}
+            title={dubbing ? 'Stop and download the dubbed audio' : 'Record the dubbed audio'}
+          >
+            <span className="material-symbols-outlined filled">
+              {dubbing ? 'stop_circle' : 'radio_button_checked'}
+            </span>
+          </button>
+        )}
+
         <div className="language-selector-container">
           <select
             className="tray-select"
@@ -80,6 +142,43 @@ function ControlTray({ children }: ControlTrayProps) {
           </select>
         </div>
 
+        <div className="language-selector-container">
+          <select
+            className="tray-select"
+            ref={inputSelectRef}
+            value={inputMode}
+            onChange={e => onInputModeChange(e.target.value as InputMode)}
+            onBlur={() => setInputPickerOpen(false)}
+            disabled={connected}
+            title="What is interpreted"
+          >
+            <option value="" disabled>Select Input</option>
+            {INPUT_MODES.map(({ mode, label }) => (
+              <option key={mode} value={mode}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {additionalLanguages.length > 0 && (
+          <div className="language-selector-container">
+            <select
+              className="tray-select"
+              value={listenLanguage}
+              onChange={e => setListenLanguage(e.target.value)}
+              title="Language you hear"
+            >
+              <option value="">Hear: {language || 'Auto'}</option>
+              {additionalLanguages.map(({ language: lang }) => (
+                <option key={lang} value={lang}>
+                  Hear: {lang}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {children}
       </nav>
 
@@ -98,11 +197,72 @@ function ControlTray({ children }: ControlTrayProps) {
           </button>
         </div>
         <div style={{display: 'flex', alignItems: 'center', gap: '8px', minWidth: '60px'}}>
-          <AudioVisualizer volume={volume} active={connected && isVolumeEnabled} />
-          <span className="text-indicator" style={{display: connected ? 'none' : 'block'}}>
-            {connected ? '' : language ? 'Ready' : 'Select Language'}
+          {connected && inputMode === 'both' ? (
+            <>
+              {renderInputLevel(inputSourceVolumes.tab, 'Tab level', 'tab')}
+              {renderInputLevel(inputSourceVolumes.microphone, 'Microphone level', 'microphone')}
+            </>
+          ) : connected ? (
+            renderInputLevel(inputVolume, 'Input level')
+          ) : null}
+          {connected && (
+            <span
+              className={cn('speech-indicator', { speaking })}
+              title={speaking ? 'Speech detected in the source' : 'No speech in the source'}
+            >
+              <span className="material-symbols-outlined filled">
+                {speaking ? 'record_voice_over' : 'voice_over_off'}
+              </span>
+            </span>
+          )}
+          <button
+            className="visualizer-toggle"
+            onClick={toggleVisualizerDual}
+            title={isVisualizerDual ? 'Show the interpreter only' : 'Show the source next to the interpreter'}
+          >
+            <AudioVisualizer
+              bands={outputSpectrum}
+              sourceBands={isVisualizerDual ? inputSpectrum : undefined}
+              active={connected && isVolumeEnabled}
+            />
+          </button>
+          {usage.totalTokens > 0 && (
+            <span
+              className="usage-indicator"
+              title={`Prompt ${usage.promptTokens} / Response ${usage.responseTokens} tokens (audio in ${usage.inputAudioTokens}, video in ${usage.inputVideoTokens}, audio out ${usage.outputAudioTokens})`}
+            >
+              {formatTokens(usage.totalTokens)} tok · {formatCost(estimateCost(usage))}
+            </span>
+          )}
+          <span className="text-indicator" style={{display: connected && !reconnecting && !subtitles ? 'none' : 'block'}}>
+            {reconnecting
+              ? 'Reconnecting...'
+              : connected
+              ? 'Subtitles only'
+              : !language
+              ? 'Select Language'
+              : !inputMode
+              ? 'Select Input'
+              : subtitles
+              ? 'Ready (Subtitles)'
+              : 'Ready'}
           </span>
         </div>
+        {additionalLanguages.length > 0 && (
+          <div className="channel-statuses">
+            <span className={cn('channel-status', mainStatus)} title={`${language || 'Auto'}: ${mainStatus}`}>
+              {language || 'Auto'}
+            </span>
+            {additionalLanguages.map(({ language: lang }) => {
+              const status = channels[lang]?.status || 'disconnected';
+              return (
+                <span key={lang} className={cn('channel-status', status)} title={`${lang}: ${status}`}>
+                  {lang}
+                </span>
+              );
+            })}
+          </div>
+        )}
       </div>
     </section>
   );
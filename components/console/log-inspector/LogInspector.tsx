@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useMemo, useRef, useState } from 'react';
+import cn from 'classnames';
+import { StreamingLog } from '@/lib/genai-live-client';
+import { NumberedLog, useStreamingLogStore, useUI } from '@/lib/state';
+
+const TYPE_FILTERS = [
+  { prefix: '', label: 'All' },
+  { prefix: 'client.', label: 'client.*' },
+  { prefix: 'server.', label: 'server.*' },
+];
+
+function messageText(message: StreamingLog['message']) {
+  return typeof message === 'string' ? message : JSON.stringify(message);
+}
+
+function formatTime(date: Date) {
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(
+    date.getMilliseconds()
+  ).padStart(3, '0')}`;
+}
+
+function downloadLogs(logs: StreamingLog[]) {
+  const blob = new Blob([JSON.stringify(logs, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `live-logs-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function renderLogEntry(log: NumberedLog) {
+  const source = log.type.split('.')[0];
+  return (
+    <div className="log-entry" key={log.id}>
+      <span className="log-time">{formatTime(log.date)}</span>
+      <span className={cn('log-type', source)}>{log.type}</span>
+      <span className="log-message">
+        {typeof log.message === 'string' ? (
+          log.message
+        ) : (
+          <details>
+            <summary>{messageText(log.message).slice(0, 120)}</summary>
+            <pre>{JSON.stringify(log.message, null, 2)}</pre>
+          </details>
+        )}
+      </span>
+      {log.count && log.count > 1 ? (
+        <span className="log-count">×{log.count}</span>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Debugging panel listing the client's send/receive log.
+ */
+export default function LogInspector() {
+  const isLogInspectorOpen = useUI(state => state.isLogInspectorOpen);
+  // Only subscribed to the log while open
+  return isLogInspectorOpen ? <LogInspectorPanel /> : null;
+}
+
+function LogInspectorPanel() {
+  const toggleLogInspector = useUI(state => state.toggleLogInspector);
+  const logs = useStreamingLogStore(state => state.logs);
+  const clearLogs = useStreamingLogStore(state => state.clearLogs);
+  const [typePrefix, setTypePrefix] = useState('');
+  const [search, setSearch] = useState('');
+  // Logs at the time the view was paused, null while following
+  const [pausedLogs, setPausedLogs] = useState<NumberedLog[] | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visibleLogs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (pausedLogs ?? logs).filter(
+      log =>
+        log.type.startsWith(typePrefix) &&
+        (!query ||
+          log.type.toLowerCase().includes(query) ||
+          messageText(log.message).toLowerCase().includes(query))
+    );
+  }, [logs, pausedLogs, typePrefix, search]);
+
+  // Follow new entries unless paused
+  useEffect(() => {
+    if (!pausedLogs && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [visibleLogs, pausedLogs]);
+
+  const pausedAt = pausedLogs?.[pausedLogs.length - 1]?.id;
+  const newWhilePaused =
+    pausedAt !== undefined ? logs.filter(log => log.id > pausedAt).length : 0;
+
+  return (
+    <section className="log-inspector">
+      <div className="log-inspector-toolbar">
+        <select
+          value={typePrefix}
+          onChange={e => setTypePrefix(e.target.value)}
+          aria-label="Filter by type"
+        >
+          {TYPE_FILTERS.map(({ prefix, label }) => (
+            <option key={prefix} value={prefix}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          placeholder="Search logs"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+        />
+        <button
+          onClick={() => setPausedLogs(pausedLogs ? null : logs)}
+          title={pausedLogs ? 'Resume' : 'Pause'}
+        >
+          <span className="icon">{pausedLogs ? 'play_arrow' : 'pause'}</span>
+          {newWhilePaused > 0 && (
+            <span className="log-count">+{newWhilePaused}</span>
+          )}
+        </button>
+        <button onClick={() => downloadLogs(visibleLogs)} title="Export as JSON">
+          <span className="icon">download</span>
+        </button>
+        <button
+          onClick={() => {
+            clearLogs();
+            setPausedLogs(null);
+          }}
+          title="Clear"
+        >
+          <span className="icon">delete</span>
+        </button>
+        <button onClick={toggleLogInspector} title="Close">
+          <span className="icon">close</span>
+        </button>
+      </div>
+      <div className="log-inspector-list" ref={listRef}>
+        {visibleLogs.length === 0 ? (
+          <p className="log-empty">No log entries</p>
+        ) : (
+          visibleLogs.map(renderLogEntry)
+        )}
+      </div>
+    </section>
+  );
+}
@@ -3,47 +3,80 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { useLiveAPIContext } from '@/contexts/LiveAPIContext';
-import React, { useEffect, useState } from 'react';
+import { LiveErrorCategory } from '@/lib/errors';
+import { useSettings, useUI } from '@/lib/state';
 
-export interface ExtendedErrorType {
-  code?: number;
-  message?: string;
-  status?: string;
-}
-
-export default function ErrorScreen() {
-  const { client } = useLiveAPIContext();
-  const [error, setError] = useState<{ message?: string } | null>(null);
-
-  useEffect(() => {
-    function onError(error: ErrorEvent) {
-      console.error(error);
-      setError(error);
-    }
-
-    client.on('error', onError);
+type ErrorAction = 'retry' | 'repick' | 'switch-key';
 
-    return () => {
-      client.off('error', onError);
-    };
-  }, [client]);
+/**
+ * What the error screen says and offers for each category.
+ */
+const ERROR_COPY: Record<
+  LiveErrorCategory,
+  { message: string; actions: ErrorAction[]; showRaw: boolean }
+> = {
+  auth: {
+    message: 'The API key or token was rejected.',
+    actions: ['switch-key', 'retry'],
+    showRaw: true,
+  },
+  quota: {
+    message:
+      'Gemini Live API in AI Studio has a limited free quota each day. Come back tomorrow to continue, or use a different key.',
+    actions: ['switch-key'],
+    showRaw: false,
+  },
+  network: {
+    message: 'The connection to the Live API was lost.',
+    actions: ['retry'],
+    showRaw: true,
+  },
+  protocol: {
+    message: 'The Live API could not handle the session.',
+    actions: ['retry'],
+    showRaw: true,
+  },
+  'media-permission': {
+    message:
+      'The source could not be captured. Allow the microphone, or pick a tab or screen and check "Share audio".',
+    actions: ['repick'],
+    showRaw: true,
+  },
+  'audio-context': {
+    message: 'The browser could not start audio. Click to try again.',
+    actions: ['retry'],
+    showRaw: true,
+  },
+};
 
-  const quotaErrorMessage =
-    'Gemini Live API in AI Studio has a limited free quota each day. Come back tomorrow to continue.';
+const ACTION_LABELS: Record<ErrorAction, string> = {
+  retry: 'Try Again',
+  repick: 'Choose Source Again',
+  'switch-key': 'Use a Different Key',
+};
 
-  let errorMessage = 'Something went wrong. Please try again.';
-  let rawMessage: string | null = error?.message || null;
-  let tryAgainOption = true;
-  if (error?.message?.includes('RESOURCE_EXHAUSTED')) {
-    errorMessage = quotaErrorMessage;
-    rawMessage = null;
-    tryAgainOption = false;
-  }
+export default function ErrorScreen() {
+  const { error, dismissError, retry, disconnect, switchKey } =
+    useLiveAPIContext();
+  const setInputPickerOpen = useUI(state => state.setInputPickerOpen);
 
   if (!error) {
     return <div style={{ display: 'none' }} />;
   }
 
+  const { message, actions, showRaw } = ERROR_COPY[error.category];
+  const runAction = (action: ErrorAction) => {
+    dismissError();
+    if (action === 'retry') retry();
+    if (action === 'repick') {
+      disconnect();
+      // Cleared so choosing the same input again also reconnects
+      useSettings.getState().setInputMode('');
+      setInputPickerOpen(true);
+    }
+    if (action === 'switch-key') switchKey();
+  };
+
   return (
     <div className="error-screen">
       <div
@@ -61,19 +94,23 @@ export default function ErrorScreen() {
           opacity: 0.5,
         }}
       >
-        {errorMessage}
+        {message}
       </div>
-      {tryAgainOption ? (
-        <button
-          className="close-button"
-          onClick={() => {
-            setError(null);
-          }}
-        >
+      <div style={{ display: 'flex', gap: 8 }}>
+        {actions.map(action => (
+          <button
+            key={action}
+            className="close-button"
+            onClick={() => runAction(action)}
+          >
+            {ACTION_LABELS[action]}
+          </button>
+        ))}
+        <button className="close-button" onClick={dismissError}>
           Close
         </button>
-      ) : null}
-      {rawMessage ? (
+      </div>
+      {showRaw ? (
         <div
           className="error-raw-message-container"
           style={{
@@ -82,7 +119,7 @@ export default function ErrorScreen() {
             opacity: 0.4,
           }}
         >
-          {rawMessage}
+          {error.message}
         </div>
       ) : null}
     </div>
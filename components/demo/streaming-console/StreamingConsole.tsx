@@ -5,9 +5,11 @@
 */
 import { useEffect, useRef, memo, useState } from 'react';
 import { LiveConnectConfig, Modality, LiveServerContent } from '@google/genai';
+import c from 'classnames';
 
 import { useLiveAPIContext } from '../../../contexts/LiveAPIContext';
 import {
+  useChannelsStore,
   useSettings,
   useLogStore,
   useTools,
@@ -47,6 +49,16 @@ const ScriptReader = memo(({ text }: { text: string }) => {
   );
 });
 
+// Longest subtitle shown at once, older text of a long turn scrolls away
+const SUBTITLE_CHARS = 160;
+
+function subtitleTail(text: string) {
+  if (text.length <= SUBTITLE_CHARS) return text;
+  const tail = text.slice(-SUBTITLE_CHARS);
+  // Start at a word boundary
+  return tail.slice(tail.indexOf(' ') + 1);
+}
+
 // Digital Clock Component
 const DigitalClock = () => {
   const [time, setTime] = useState(new Date());
@@ -70,33 +82,48 @@ const DigitalClock = () => {
 
 export default function StreamingConsole() {
   const { client, setConfig } = useLiveAPIContext();
-  const { systemPrompt, voice } = useSettings();
+  const { systemPrompt, voice, outputMode, language } = useSettings();
   const { tools } = useTools();
   const turns = useLogStore(state => state.turns);
+  const channels = useChannelsStore(state => state.channels);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // '' is the main language, otherwise the language of a channel
+  const [transcriptTab, setTranscriptTab] = useState('');
+  // Back to the main language once the channel is closed
+  const tab = channels[transcriptTab] ? transcriptTab : '';
+  const channelLanguages = Object.keys(channels);
   
   // State for live captions from the input audio (What the AI hears/reads from YouTube)
   const [captions, setCaptions] = useState('');
 
   useEffect(() => {
-    const config: any = {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: {
-            voiceName: voice,
-          },
+    const config: any =
+      outputMode === 'subtitles'
+        ? {
+            // Silent subtitles: native audio models only answer in audio,
+            // its transcription is the subtitle and the audio is not played
+            responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+          }
+        : {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: {
+                prebuiltVoiceConfig: {
+                  voiceName: voice,
+                },
+              },
+            },
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+          };
+    config.systemInstruction = {
+      parts: [
+        {
+          text: systemPrompt,
         },
-      },
-      inputAudioTranscription: {},
-      outputAudioTranscription: {},
-      systemInstruction: {
-        parts: [
-          {
-            text: systemPrompt,
-          },
-        ],
-      },
+      ],
     };
 
     const enabledTools = tools
@@ -116,22 +143,40 @@ export default function StreamingConsole() {
     }
 
     setConfig(config);
-  }, [setConfig, systemPrompt, tools, voice]);
+  }, [setConfig, systemPrompt, tools, voice, outputMode]);
 
   useEffect(() => {
     const { addTurn, updateLastTurn } = useLogStore.getState();
+    const subtitles = outputMode === 'subtitles';
+    // Translated text of the current turn in subtitle mode
+    let subtitleText = '';
+    let clearTimer: number | undefined;
+
+    const showCaption = (text: string, clearAfterMs?: number) => {
+      window.clearTimeout(clearTimer);
+      setCaptions(text);
+      if (clearAfterMs) {
+        clearTimer = window.setTimeout(
+          () => setCaptions(prev => (prev === text ? '' : prev)),
+          clearAfterMs
+        );
+      }
+    };
 
     // Listener for live captions from input audio (Source Transcription)
     // This feeds the "Real-time Captions" overlay on the Media Embedder
     const handleInputTranscription = (text: string, isFinal: boolean) => {
-       setCaptions(text);
-       if (isFinal) {
-         // Clear caption after a short delay if it's a final sentence
-         setTimeout(() => setCaptions(prev => prev === text ? '' : prev), 3000); 
-       }
+       // In subtitle mode the overlay shows the translation instead
+       if (subtitles) return;
+       // Clear caption after a short delay if it's a final sentence
+       showCaption(text, isFinal ? 3000 : undefined);
     };
 
     const handleOutputTranscription = (text: string, isFinal: boolean) => {
+        if (subtitles) {
+            appendSubtitle(text);
+            return;
+        }
         // Log model output (Interpretation) for display in the console
         if (isFinal) {
             addTurn({
@@ -142,12 +187,20 @@ export default function StreamingConsole() {
         }
     };
 
+    const appendSubtitle = (text: string) => {
+       subtitleText += text;
+       showCaption(subtitleTail(subtitleText));
+    };
+
     const handleContent = (serverContent: LiveServerContent) => {
        // We can handle raw content updates here if needed
     };
 
     const handleTurnComplete = () => {
-       // Turn complete
+       if (!subtitleText) return;
+       addTurn({ role: 'model', text: subtitleText, isFinal: true });
+       showCaption(subtitleTail(subtitleText), 3000);
+       subtitleText = '';
     };
 
     client.on('inputTranscription', handleInputTranscription);
@@ -156,12 +209,13 @@ export default function StreamingConsole() {
     client.on('turncomplete', handleTurnComplete);
 
     return () => {
+      window.clearTimeout(clearTimer);
       client.off('inputTranscription', handleInputTranscription);
       client.off('outputTranscription', handleOutputTranscription);
       client.off('content', handleContent);
       client.off('turncomplete', handleTurnComplete);
     };
-  }, [client]);
+  }, [client, outputMode]);
 
   // Scroll to bottom when turns change
   useEffect(() => {
@@ -173,11 +227,52 @@ export default function StreamingConsole() {
   // Filter: Show "model" turns (The AI's Interpretation/Translation)
   const scriptTurns = turns.filter(t => t.role === 'model' && t.text);
 
+  const renderPlaceholder = (text: string) => (
+    <div className="waiting-placeholder">
+      <span className="material-symbols-outlined icon">record_voice_over</span>
+      <p>{text}</p>
+    </div>
+  );
+
+  const renderTranscript = () => {
+    if (tab) {
+      const { transcript } = channels[tab];
+      return transcript ? (
+        <div className="transcription-view teleprompter-mode" ref={scrollRef}>
+          <div className="transcription-entry system">
+            <div className="transcription-text-content">
+              <div className="script-line">
+                <span className="script-spoken">{transcript}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : (
+        renderPlaceholder(`Waiting for ${tab}...`)
+      );
+    }
+    return scriptTurns.length === 0 ? (
+      renderPlaceholder('Ready to interpret...')
+    ) : (
+      <div className="transcription-view teleprompter-mode" ref={scrollRef}>
+        {scriptTurns.map((t, i) => (
+          <div key={i} className="transcription-entry system">
+            <div className="transcription-text-content">
+              <ScriptReader text={t.text} />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const empty = tab ? !channels[tab].transcript : scriptTurns.length === 0;
+
   return (
     <div className="streaming-console-layout">
       {/* Media Embedding Section with Live Caption Overlay */}
       <div className="media-container-wrapper">
-         <MediaEmbedder captions={captions} />
+         <MediaEmbedder captions={captions} translated={outputMode === 'subtitles'} />
       </div>
 
       <div className="digital-clock-wrapper">
@@ -185,26 +280,28 @@ export default function StreamingConsole() {
       </div>
       
       <div className="transcription-container">
-        {scriptTurns.length === 0 ? (
-          <div className="console-box empty">
-            <div className="waiting-placeholder">
-              <span className="material-symbols-outlined icon">record_voice_over</span>
-              <p>Ready to interpret...</p>
-            </div>
-          </div>
-        ) : (
-          <div className="console-box">
-            <div className="transcription-view teleprompter-mode" ref={scrollRef}>
-              {scriptTurns.map((t, i) => (
-                <div key={i} className="transcription-entry system">
-                  <div className="transcription-text-content">
-                    <ScriptReader text={t.text} />
-                  </div>
-                </div>
+        <div className={c('console-box', { empty, tabbed: channelLanguages.length > 0 })}>
+          {/* One tab per language while additional languages are interpreted */}
+          {channelLanguages.length > 0 && (
+            <div className="transcript-tabs" role="tablist">
+              {['', ...channelLanguages].map(lang => (
+                <button
+                  key={lang || 'main'}
+                  role="tab"
+                  aria-selected={tab === lang}
+                  className={c('transcript-tab', { active: tab === lang })}
+                  onClick={() => setTranscriptTab(lang)}
+                >
+                  {lang || language}
+                  {lang && channels[lang].status !== 'connected' && (
+                    <span className="transcript-tab-status"> · {channels[lang].status}</span>
+                  )}
+                </button>
               ))}
             </div>
-          </div>
-        )}
+          )}
+          {renderTranscript()}
+        </div>
       </div>
     </div>
   );
@@ -8,15 +8,24 @@ import { useSettings } from '@/lib/state';
 import { useLiveAPIContext } from '@/contexts/LiveAPIContext';
 import c from 'classnames';
 
+// Direct links to media files play in a <video> element rather than a frame
+const VIDEO_FILE_PATTERN = /^blob:|\.(mp4|webm|ogv|ogg|mov|m4v)(\?|#|$)/i;
+
 export type MediaEmbedderProps = {
   captions?: string;
+  // Captions are the translation rather than the source transcription
+  translated?: boolean;
 };
 
-export default function MediaEmbedder({ captions }: MediaEmbedderProps) {
+export default function MediaEmbedder({ captions, translated }: MediaEmbedderProps) {
   const { mediaUrl, language, setMediaTitle, sourceVolume } = useSettings();
-  const { connected, connectWithScreenAudio } = useLiveAPIContext();
+  const { connected, connectWithScreenAudio, sourceDuck } = useLiveAPIContext();
   const [embedSrc, setEmbedSrc] = useState('');
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const isVideoFile = VIDEO_FILE_PATTERN.test(embedSrc);
+  // Manual source volume, lowered while the interpreter speaks
+  const effectiveVolume = Math.round(sourceVolume * sourceDuck);
 
   // Fetch Metadata using oEmbed (YouTube Data API) when URL changes
   useEffect(() => {
@@ -60,6 +69,14 @@ export default function MediaEmbedder({ captions }: MediaEmbedderProps) {
                 console.debug('OEmbed fetch failed, using generic context');
                 setMediaTitle('Web Video Content');
             });
+    } else if (VIDEO_FILE_PATTERN.test(mediaUrl)) {
+        let fileName = mediaUrl.split(/[?#]/)[0].split('/').pop() || '';
+        try {
+            fileName = decodeURIComponent(fileName);
+        } catch (e) {
+            // A stray '%' is not an escape, keep the name as it is
+        }
+        setMediaTitle(fileName || 'Video File');
     } else {
         setMediaTitle('Web Content');
     }
@@ -69,21 +86,35 @@ export default function MediaEmbedder({ captions }: MediaEmbedderProps) {
 
   // Handle Source Volume Ducking via PostMessage (YouTube IFrame API)
   useEffect(() => {
-    if (iframeRef.current && iframeRef.current.contentWindow && mediaUrl.includes('youtube')) {
+    if (videoRef.current) {
+        videoRef.current.volume = effectiveVolume / 100;
+    } else if (iframeRef.current && iframeRef.current.contentWindow && mediaUrl.includes('youtube')) {
         // Send command to YouTube Player to adjust volume
         // This allows separating the Source Audio from the Interpreter's Voice
         iframeRef.current.contentWindow.postMessage(JSON.stringify({
             event: 'command',
             func: 'setVolume',
-            args: [sourceVolume] // 0 - 100
+            args: [effectiveVolume] // 0 - 100
         }), '*');
     }
-  }, [sourceVolume, embedSrc]);
+  }, [effectiveVolume, embedSrc]);
 
   return (
     <div className="media-embedder-wrapper">
       <div className="media-aspect-ratio">
-        {embedSrc ? (
+        {embedSrc && isVideoFile ? (
+            <video
+                ref={videoRef}
+                src={embedSrc}
+                className="media-iframe"
+                controls
+                autoPlay
+                playsInline
+                onLoadedMetadata={e => {
+                    e.currentTarget.volume = effectiveVolume / 100;
+                }}
+            />
+        ) : embedSrc ? (
             <iframe 
                 ref={iframeRef}
                 src={embedSrc} 
@@ -98,7 +129,7 @@ export default function MediaEmbedder({ captions }: MediaEmbedderProps) {
         ) : (
             <div className="empty-embed">
                 <span className="material-symbols-outlined icon">smart_display</span>
-                <p>Enter a YouTube URL in Settings</p>
+                <p>Enter a YouTube or video file URL in Settings</p>
             </div>
         )}
         
@@ -111,9 +142,9 @@ export default function MediaEmbedder({ captions }: MediaEmbedderProps) {
             </div>
         )}
         
-        {/* Live Caption Overlay - Renders AI Transcription (Input) over the video */}
+        {/* Live Caption Overlay - Renders AI Transcription (Input), or the translation in subtitle mode */}
         {captions && (
-            <div className="live-caption-overlay">
+            <div className={c('live-caption-overlay', { translated })}>
                 <span className="caption-text">{captions}</span>
             </div>
         )}
@@ -5,78 +5,85 @@
 import { useEffect, useRef } from 'react';
 
 export type AudioVisualizerProps = {
-  volume: number; // 0 to 1
+  // Band levels of the interpreter output, 0 to 1, lowest band first
+  bands: number[];
   active: boolean;
+  // Band levels of the source, drawn to the left of the interpreter's
+  sourceBands?: number[];
 };
 
-export default function AudioVisualizer({ volume, active }: AudioVisualizerProps) {
+const BAR_WIDTH = 3;
+const GAP = 1;
+// Between the source and interpreter group in dual view
+const GROUP_GAP = 6;
+const HEIGHT = 24;
+
+const COLORS = {
+  dark: { interpreter: '#1f94ff', source: '#a8dab5' },
+  light: { interpreter: '#1a73e8', source: '#188038' },
+};
+
+function groupWidth(count: number) {
+  return count * BAR_WIDTH + Math.max(0, count - 1) * GAP;
+}
+
+export default function AudioVisualizer({ bands, active, sourceBands }: AudioVisualizerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number | null>(null);
-  
-  // Keep track of bar heights for smooth animation
-  const barsRef = useRef<number[]>([0, 0, 0, 0]);
+  // Latest levels, read by the animation loop
+  const targetRef = useRef({ bands, sourceBands, active });
+  targetRef.current = { bands, sourceBands, active };
+  // Drawn bar heights, eased towards the levels
+  const barsRef = useRef<{ interpreter: number[]; source: number[] }>({
+    interpreter: [],
+    source: [],
+  });
+
+  const dual = sourceBands !== undefined;
+  const count = Math.max(bands.length, 4);
+  const width = dual ? groupWidth(count) * 2 + GROUP_GAP : groupWidth(count);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Helper to draw a single frame
-    const draw = () => {
-      if (!canvas) return;
-      
-      const width = canvas.width;
-      const height = canvas.height;
-      const barCount = 4;
-      const gap = 2;
-      const barWidth = (width - ((barCount - 1) * gap)) / barCount;
-      
-      ctx.clearRect(0, 0, width, height);
-
-      // Define styling
-      const theme = document.body.getAttribute('data-theme') || 'dark';
-      const color = theme === 'dark' ? '#1f94ff' : '#1a73e8'; // Blue-500 equivalent
-
-      // Update bars based on volume input
-      // We map the single volume value to slightly different random multipliers 
-      // to create a "wave" effect across the bars
-      barsRef.current = barsRef.current.map((currentHeight, i) => {
-        let targetHeight = 0;
-        
-        if (active && volume > 0.01) {
-          // Amplify the volume for visibility
-          const amplified = Math.min(1, volume * 3); 
-          
-          // Randomize slightly for each bar based on index
-          const variance = 0.7 + (Math.random() * 0.3);
-          const indexMod = 1 - (Math.abs(1.5 - i) * 0.2); // Center bars higher
-          
-          targetHeight = amplified * height * variance * indexMod;
-          targetHeight = Math.max(4, targetHeight); // Min height
-        } else {
-          targetHeight = 2; // Resting height
-        }
-
-        // Smooth interpolation (ease-out)
-        return currentHeight + (targetHeight - currentHeight) * 0.2;
+    const ease = (drawn: number[], levels: number[] | undefined, on: boolean) =>
+      Array.from({ length: count }, (_, i) => {
+        const level = on && levels ? levels[i] ?? 0 : 0;
+        // Resting height keeps the bars visible while silent
+        const target = Math.max(2, level * HEIGHT);
+        const current = drawn[i] ?? 2;
+        return current + (target - current) * 0.3;
       });
 
-      // Draw bars
+    const drawGroup = (heights: number[], x0: number, color: string) => {
       ctx.fillStyle = color;
-      
-      barsRef.current.forEach((h, i) => {
-        const x = i * (barWidth + gap);
+      heights.forEach((h, i) => {
+        const x = x0 + i * (BAR_WIDTH + GAP);
         // Center vertically
-        const y = (height - h) / 2;
-        
-        // Rounded caps
+        const y = (HEIGHT - h) / 2;
         ctx.beginPath();
-        ctx.roundRect(x, y, barWidth, h, 20);
+        ctx.roundRect(x, y, BAR_WIDTH, h, 20);
         ctx.fill();
       });
+    };
 
+    const draw = () => {
+      const { bands, sourceBands, active } = targetRef.current;
+      const theme = document.body.getAttribute('data-theme') === 'light' ? 'light' : 'dark';
+      const bars = barsRef.current;
+      bars.interpreter = ease(bars.interpreter, bands, active);
+      bars.source = ease(bars.source, sourceBands, active);
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      if (dual) {
+        drawGroup(bars.source, 0, COLORS[theme].source);
+        drawGroup(bars.interpreter, groupWidth(count) + GROUP_GAP, COLORS[theme].interpreter);
+      } else {
+        drawGroup(bars.interpreter, 0, COLORS[theme].interpreter);
+      }
       requestRef.current = requestAnimationFrame(draw);
     };
 
@@ -87,16 +94,17 @@ export default function AudioVisualizer({ volume, active }: AudioVisualizerProps
         cancelAnimationFrame(requestRef.current);
       }
     };
-  }, [active, volume]);
+  }, [count, dual]);
 
   return (
     <div className="audio-visualizer-container">
-      <canvas 
-        ref={canvasRef} 
-        width={32} 
-        height={24} 
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={HEIGHT}
+        style={{width: `${width}px`}}
         className="audio-visualizer-canvas"
       />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -20,19 +20,20 @@
 
 import { createContext, FC, ReactNode, useContext } from 'react';
 import { useLiveApi, UseLiveApiResults } from '../hooks/media/use-live-api';
+import { AuthTokenProvider } from '../lib/auth-token-provider';
 
 const LiveAPIContext = createContext<UseLiveApiResults | undefined>(undefined);
 
 export type LiveAPIProviderProps = {
   children: ReactNode;
-  apiKey: string;
+  auth: AuthTokenProvider;
 };
 
 export const LiveAPIProvider: FC<LiveAPIProviderProps> = ({
-  apiKey,
+  auth,
   children,
 }) => {
-  const liveAPI = useLiveApi({ apiKey });
+  const liveAPI = useLiveApi({ auth });
 
   return (
     <LiveAPIContext.Provider value={liveAPI}>
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useMemo } from 'react';
+import { LatencyMetric, percentile } from '@/lib/latency-tracker';
+import { useLatencyStore } from '@/lib/state';
+
+export type LatencyStats = {
+  p50: number | null;
+  p95: number | null;
+  count: number;
+};
+
+/**
+ * Rolling p50/p95 of the interpretation pipeline latencies, in milliseconds.
+ */
+export function useLatencyMetrics(): Record<LatencyMetric, LatencyStats> {
+  const samples = useLatencyStore(state => state.samples);
+
+  return useMemo(() => {
+    const stats = (values: number[]): LatencyStats => ({
+      p50: percentile(values, 0.5),
+      p95: percentile(values, 0.95),
+      count: values.length,
+    });
+    return {
+      transcription: stats(samples.transcription),
+      response: stats(samples.response),
+      playback: stats(samples.playback),
+    };
+  }, [samples]);
+}
@@ -20,52 +20,489 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { GenAILiveClient } from '../../lib/genai-live-client';
-import { LiveConnectConfig, Modality, LiveServerToolCall } from '@google/genai';
-import { AudioStreamer } from '../../lib/audio-streamer';
-import { AudioRecorder } from '../../lib/audio-recorder';
+import { MockLiveTransport } from '../../lib/mock-live-transport';
+import { ReplayLiveTransport } from '../../lib/replay-live-transport';
+import { SessionRecorder, SessionRecording } from '../../lib/session-recorder';
+import { DubRecorder } from '../../lib/dub-recorder';
+import {
+  LiveConnectConfig,
+  Modality,
+  LiveServerToolCall,
+  UsageMetadata,
+} from '@google/genai';
+import { AudioStreamer, PlaybackLag } from '../../lib/audio-streamer';
+import { AudioRecorder, InputSource } from '../../lib/audio-recorder';
 import { audioContext } from '../../lib/utils';
 import VolMeterWorket from '../../lib/worklets/vol-meter';
-import { useLogStore, useSettings } from '@/lib/state';
+import SpectrumWorklet from '../../lib/worklets/spectrum';
+import {
+  generateSystemPrompt,
+  InputMode,
+  useChannelsStore,
+  useLatencyStore,
+  useLogStore,
+  useMicrophoneSettings,
+  useOutputRouting,
+  useSendStatsStore,
+  useStreamingLogStore,
+  useSettings,
+  useUsageStore,
+} from '@/lib/state';
+import { InterpretationChannel } from '@/lib/interpretation-channel';
+import { LatencyTracker } from '@/lib/latency-tracker';
+import { SourceDucker } from '@/lib/ducking';
+import { VoiceLoudness } from '@/lib/voice-processing';
+import { PadOptions } from '@/lib/pad-engine';
+import { setContextOutputDevice } from '@/lib/output-devices';
+import { withCarryOverContext } from '@/lib/prompts';
+import { estimateCost, formatCost } from '@/lib/usage';
+import { AuthTokenProvider } from '@/lib/auth-token-provider';
+import { AudioContextError, LiveError, toLiveError } from '@/lib/errors';
+import {
+  AUDIO_VIDEO_SESSION_LIMIT_MS,
+  MOCK_LIVE_PATH,
+  SESSION_CARRY_OVER_CHARS,
+  SESSION_ROLLOVER_CROSSFADE_S,
+  SESSION_ROLLOVER_LEAD_MS,
+} from '@/lib/constants';
 
 export type UseLiveApiResults = {
   client: GenAILiveClient;
   setConfig: (config: LiveConnectConfig) => void;
   config: LiveConnectConfig;
 
+  // Connects with the input mode chosen in the settings
   connect: () => Promise<void>;
-  connectWithScreenAudio: () => Promise<void>; // New method
+  // Connects capturing a tab or screen, with the microphone in 'both' mode
+  connectWithScreenAudio: () => Promise<void>;
   disconnect: () => void;
   connected: boolean;
+  reconnecting: boolean;
+  // Whether the VAD currently hears speech in the captured audio
+  speaking: boolean;
+
+  recording: boolean;
+  startRecording: () => void;
+  stopRecording: () => void;
+  replaying: boolean;
+  replaySession: (recording: SessionRecording) => void;
+  // Recording of the dubbed audio, downloaded as WAV when stopped
+  dubbing: boolean;
+  startDubbing: () => void;
+  stopDubbing: () => void;
 
   volume: number;
+  // Band levels of the interpreter output and of the captured input, 0 to 1
+  outputSpectrum: number[];
+  inputSpectrum: number[];
+  // Level of the captured input, and of each source before mixing
+  inputVolume: number;
+  inputSourceVolumes: Record<InputSource, number>;
+  // How far the interpreter voice plays behind what was received
+  playbackLag: PlaybackLag | null;
+  // Short-term loudness of the interpreter voice and its normalization
+  voiceLoudness: VoiceLoudness | null;
+  // Factor the source volume is lowered to while the interpreter speaks
+  sourceDuck: number;
   isVolumeEnabled: boolean;
   setIsVolumeEnabled: (isEnabled: boolean) => void;
+
+  error: LiveError | null;
+  dismissError: () => void;
+  // Disconnects and connects again the way the last session was started
+  retry: () => Promise<void>;
+  // Asks for another API key, then retries
+  switchKey: () => Promise<void>;
 };
 
+/**
+ * Creates a client for the Live API, or for the local mock server when the
+ * app runs with LIVE_MOCK set. `?mockScenario=` in the page URL picks the
+ * server scenario.
+ */
+function createLiveClient(auth: AuthTokenProvider, model: string) {
+  let client: GenAILiveClient;
+  if (process.env.LIVE_MOCK) {
+    const { protocol, host, search } = window.location;
+    const url = `${protocol === 'https:' ? 'wss' : 'ws'}://${host}${MOCK_LIVE_PATH}`;
+    const scenario = new URLSearchParams(search).get('mockScenario');
+    client = new GenAILiveClient(
+      new MockLiveTransport(url, scenario || undefined),
+      model
+    );
+  } else {
+    client = new GenAILiveClient(auth, model);
+  }
+  const { uploadBudgetKbps, activityMode } = useSettings.getState();
+  client.sendQueue.setBudget(uploadBudgetKbps);
+  client.activityMode = activityMode;
+  return client;
+}
+
+/**
+ * Config of an additional language channel: the shared config with the
+ * channel's own interpreter prompt and voice.
+ */
+function channelConfig(
+  config: LiveConnectConfig,
+  language: string,
+  voice: string,
+  mediaTitle: string
+): LiveConnectConfig {
+  return {
+    ...config,
+    // Subtitle-only sessions have no voice to configure
+    ...(config.speechConfig && {
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+      },
+    }),
+    systemInstruction: {
+      parts: [{ text: generateSystemPrompt(language, mediaTitle) }],
+    },
+  };
+}
+
+function padOptions(): PadOptions {
+  const { padPreset, padCutoffHz, padDetuneCents, padSidechainDepthDb } =
+    useSettings.getState();
+  return {
+    preset: padPreset,
+    cutoffHz: padCutoffHz,
+    detuneCents: padDetuneCents,
+    sidechainDepthDb: padSidechainDepthDb,
+  };
+}
+
+const SILENT_SOURCES: Record<InputSource, number> = { tab: 0, microphone: 0 };
+
+function logSystemTurn(text: string) {
+  useLogStore.getState().addTurn({ role: 'system', text, isFinal: true });
+}
+
+/**
+ * Closes the usage session and logs its totals for reconciling with billing.
+ */
+function endUsageSession() {
+  const { usage, active, endSession } = useUsageStore.getState();
+  if (!active) return;
+  endSession();
+  if (!usage.totalTokens) return;
+  logSystemTurn(
+    `Session usage (estimated cost ${formatCost(
+      estimateCost(usage)
+    )}):\n\`\`\`json\n${JSON.stringify(usage, null, 2)}\n\`\`\``
+  );
+}
+
 export function useLiveApi({
-  apiKey,
+  auth,
 }: {
-  apiKey: string;
+  auth: AuthTokenProvider;
 }): UseLiveApiResults {
-  const { model, backgroundPadEnabled, backgroundPadVolume } = useSettings();
-  const client = useMemo(() => new GenAILiveClient(apiKey, model), [apiKey, model]);
+  const {
+    model,
+    backgroundPadEnabled,
+    backgroundPadVolume,
+    padPreset,
+    padCutoffHz,
+    padDetuneCents,
+    padSidechainDepthDb,
+    additionalLanguages,
+    listenLanguage,
+    mediaTitle,
+    uploadBudgetKbps,
+    maxFramesPerMinute,
+    outputMode,
+    tabInputGain,
+    micInputGain,
+    vadThresholdDb,
+    vadHangoverMs,
+    maxOutputLagMs,
+    catchUpRate,
+    duckingEnabled,
+    duckLevel,
+    duckReleaseMs,
+    voicePreset,
+    targetLufs,
+  } = useSettings();
+  const { routing, voiceDeviceId, padDeviceId } = useOutputRouting();
+  const {
+    deviceId: microphoneDeviceId,
+    echoCancellation,
+    noiseSuppression,
+    autoGainControl,
+  } = useMicrophoneSettings();
+  const baseClient = useMemo(
+    () => createLiveClient(auth, model),
+    [auth, model]
+  );
+  // The active client is replaced when a long session rolls over
+  const [client, setClient] = useState(baseClient);
+  useEffect(() => {
+    setClient(baseClient);
+  }, [baseClient]);
 
   const audioStreamerRef = useRef<AudioStreamer | null>(null);
   const audioRecorderRef = useRef<AudioRecorder | null>(null);
-  const videoIntervalRef = useRef<number | null>(null);
+  // Stops the frame capture loop
+  const stopFramesRef = useRef<(() => void) | null>(null);
+  const recorderDataRef = useRef<{
+    recorder: AudioRecorder;
+    onData: (base64: string) => void;
+    onSpeech: (speaking: boolean) => void;
+    onVolume: (volume: number) => void;
+    onSourceVolume: (source: InputSource, volume: number) => void;
+    onSpectrum: (bands: number[]) => void;
+  } | null>(null);
+  const [speaking, setSpeaking] = useState(false);
+  // Additional languages interpreted from the same capture
+  const channelsRef = useRef<InterpretationChannel[]>([]);
 
   const [volume, setVolume] = useState(0);
+  const [inputVolume, setInputVolume] = useState(0);
+  const [outputSpectrum, setOutputSpectrum] = useState<number[]>([]);
+  const [inputSpectrum, setInputSpectrum] = useState<number[]>([]);
+  const [inputSourceVolumes, setInputSourceVolumes] = useState(SILENT_SOURCES);
+  const [playbackLag, setPlaybackLag] = useState<PlaybackLag | null>(null);
+  const [voiceLoudness, setVoiceLoudness] = useState<VoiceLoudness | null>(
+    null
+  );
+  const [sourceDuck, setSourceDuck] = useState(1);
   const [isVolumeEnabled, setIsVolumeEnabled] = useState(true);
   const [connected, setConnected] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
+  const [error, setError] = useState<LiveError | null>(null);
+  // How the last session was started, for retrying after an error
+  const connectModeRef = useRef<InputMode>('tab');
   const [config, setConfig] = useState<LiveConnectConfig>({});
+  // Start of the current audio+video session, drives the rollover timer
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(
+    null
+  );
+  const recentOutputRef = useRef('');
+
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+  const [recording, setRecording] = useState(false);
+  // Client playing back a session file, connected once its listeners are bound
+  const replayRef = useRef<{
+    client: GenAILiveClient;
+    config: LiveConnectConfig;
+  } | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const dubRecorderRef = useRef<DubRecorder | null>(null);
+  const [dubbing, setDubbing] = useState(false);
+  // Date.now() time the user started the current session, unlike
+  // sessionStartedAt it is kept across rollovers
+  const sessionOriginRef = useRef<number | null>(null);
+
+  // Ducks the source while the heard interpreter voice plays, and the pad
+  // too unless its sidechain follows the voice itself
+  const ducker = useMemo(
+    () =>
+      new SourceDucker(factor => {
+        setSourceDuck(factor);
+        const { padSidechainDepthDb } = useSettings.getState();
+        audioStreamerRef.current?.setPadDuck(
+          padSidechainDepthDb > 0 ? 1 : factor
+        );
+      }),
+    []
+  );
+
+  // Streamer of the language the listener picked
+  const heardStreamer = useCallback(() => {
+    const { listenLanguage } = useSettings.getState();
+    const heardChannel = channelsRef.current.find(
+      channel => channel.language === listenLanguage
+    );
+    return heardChannel ? heardChannel.streamer : audioStreamerRef.current;
+  }, []);
+
+  const updateDucking = useCallback(() => {
+    ducker.setActive(Boolean(heardStreamer()?.playing));
+  }, [ducker, heardStreamer]);
+
+  // The dub records the heard voice ahead of the volume mute
+  const tapHeardVoice = useCallback(async () => {
+    const streamer = heardStreamer();
+    if (streamer) {
+      await dubRecorderRef.current?.tap('interpreter', streamer.voiceGain);
+    }
+  }, [heardStreamer]);
+
+  useEffect(() => {
+    ducker.setOptions({
+      enabled: duckingEnabled,
+      level: duckLevel / 100,
+      releaseMs: duckReleaseMs,
+    });
+  }, [ducker, duckingEnabled, duckLevel, duckReleaseMs]);
+
+  useEffect(() => () => ducker.dispose(), [ducker]);
+
+  // Plays on the chosen devices. Applied again on every connect, since
+  // devices may have come or gone in the meantime
+  const applyOutputRouting = useCallback(async () => {
+    const streamer = audioStreamerRef.current;
+    if (!streamer) return;
+    const { routing, voiceDeviceId, padDeviceId, setDevicesUnavailable } =
+      useOutputRouting.getState();
+    try {
+      const voiceOk = await setContextOutputDevice(
+        streamer.context,
+        voiceDeviceId
+      );
+      const padOk = await streamer.setRouting(routing, padDeviceId);
+      setDevicesUnavailable(!voiceOk, !padOk);
+      // Language channels have no pad of their own
+      const channelRouting =
+        routing === 'split-channels' ? routing : 'mixed';
+      await Promise.all(
+        channelsRef.current.map(channel =>
+          channel.streamer.setRouting(channelRouting)
+        )
+      );
+    } catch (e) {
+      console.warn('Could not apply the output routing', e);
+    }
+  }, []);
+
+  const latencyTracker = useMemo(
+    () =>
+      new LatencyTracker((metric, ms) =>
+        useLatencyStore.getState().addSample(metric, ms)
+      ),
+    []
+  );
+
+  // Stop streaming recorder audio and frames into the session
+  const detachRecorder = useCallback(() => {
+    stopFramesRef.current?.();
+    stopFramesRef.current = null;
+    if (recorderDataRef.current) {
+      const { recorder, onData, onSpeech, onVolume, onSourceVolume, onSpectrum } =
+        recorderDataRef.current;
+      recorder.off('data', onData);
+      recorder.off('speech', onSpeech);
+      recorder.off('volume', onVolume);
+      recorder.off('sourcevolume', onSourceVolume);
+      recorder.off('spectrum', onSpectrum);
+      recorderDataRef.current = null;
+    }
+    setSpeaking(false);
+    latencyTracker.speechEnded();
+    setInputVolume(0);
+    setInputSourceVolumes(SILENT_SOURCES);
+    setInputSpectrum([]);
+  }, [latencyTracker]);
+
+  // Stream recorder audio and changed frames into the given session and
+  // every language channel. Called on connect and again after a
+  // reconnect or rollover, the capture itself keeps running.
+  const attachRecorder = useCallback(
+    (recorder: AudioRecorder, target: GenAILiveClient) => {
+      detachRecorder();
+
+      const send = (chunks: Array<{ mimeType: string; data: string }>) => {
+        target.sendRealtimeInput(chunks);
+        channelsRef.current.forEach(channel =>
+          channel.sendRealtimeInput(chunks)
+        );
+      };
+
+      const onData = (base64: string) => {
+        send([{ mimeType: 'audio/pcm;rate=16000', data: base64 }]);
+      };
+      // Activity signals only go out in manual activity mode
+      const onSpeech = (isSpeaking: boolean) => {
+        setSpeaking(isSpeaking);
+        if (isSpeaking) latencyTracker.speechStarted();
+        else latencyTracker.speechEnded();
+        [target, ...channelsRef.current.map(channel => channel.client)].forEach(
+          client => (isSpeaking ? client.activityStart() : client.activityEnd())
+        );
+      };
+      const onVolume = setInputVolume;
+      const onSourceVolume = (source: InputSource, volume: number) =>
+        setInputSourceVolumes(volumes => ({ ...volumes, [source]: volume }));
+      recorder.on('data', onData);
+      recorder.on('speech', onSpeech);
+      recorder.on('volume', onVolume);
+      const onSpectrum = setInputSpectrum;
+      recorder.on('sourcevolume', onSourceVolume);
+      recorder.on('spectrum', onSpectrum);
+      recorderDataRef.current = {
+        recorder,
+        onData,
+        onSpeech,
+        onVolume,
+        onSourceVolume,
+        onSpectrum,
+      };
+      if (
+        dubRecorderRef.current &&
+        recorder.source &&
+        useSettings.getState().dubIncludeSource
+      ) {
+        dubRecorderRef.current
+          .tap('source', recorder.source)
+          .catch(e => console.warn('Could not record the source', e));
+      }
+      if (recorder.speaking) onSpeech(true);
+
+      // Setup Video Loop for Vision (Captions), faster after a scene cut.
+      // Frames are compared with the last one this session got
+      recorder.resetFrameBaseline();
+      const onFrameSent = (frame: { data: string }) =>
+        recorder.frameSent(frame.data);
+      target.on('framesent', onFrameSent);
+      let stopped = false;
+      let timer = 0;
+      const captureFrame = async () => {
+        const frameBase64 = await recorder.captureFrame();
+        if (stopped) return;
+        if (frameBase64) {
+          send([{ mimeType: 'image/jpeg', data: frameBase64 }]);
+        }
+        timer = window.setTimeout(captureFrame, recorder.frameIntervalMs);
+      };
+      timer = window.setTimeout(captureFrame, recorder.frameIntervalMs);
+      stopFramesRef.current = () => {
+        stopped = true;
+        window.clearTimeout(timer);
+        target.off('framesent', onFrameSent);
+      };
+    },
+    [detachRecorder, latencyTracker]
+  );
 
   // register audio for streaming server -> speakers
   useEffect(() => {
     if (!audioStreamerRef.current) {
       audioContext({ id: 'audio-out' }).then((audioCtx: AudioContext) => {
         audioStreamerRef.current = new AudioStreamer(audioCtx);
+        audioStreamerRef.current.onPlaybackStart = at => {
+          latencyTracker.playbackStarted(at);
+          updateDucking();
+        };
+        audioStreamerRef.current.onComplete = updateDucking;
+        audioStreamerRef.current.onLag = setPlaybackLag;
+        audioStreamerRef.current.onLoudness = setVoiceLoudness;
+        const { maxOutputLagMs, catchUpRate, voicePreset, targetLufs } =
+          useSettings.getState();
+        audioStreamerRef.current.setCatchUpOptions({
+          maxLagMs: maxOutputLagMs,
+          catchUpRate,
+        });
+        audioStreamerRef.current.setVoiceProcessing({
+          preset: voicePreset,
+          targetLufs,
+        });
+        audioStreamerRef.current.setPadOptions(padOptions());
         // Apply initial volume state
-        audioStreamerRef.current.gainNode.gain.value = isVolumeEnabled ? 1 : 0;
+        audioStreamerRef.current.setMuted(!isVolumeEnabled);
+        applyOutputRouting();
         
         // Sync initial pad state
         if (backgroundPadEnabled) {
@@ -82,6 +519,14 @@ export function useLiveApi({
           .catch(err => {
             console.error('Error adding worklet:', err);
           });
+
+        audioStreamerRef.current
+          .addWorklet<any>('spectrum-out', SpectrumWorklet, (ev: any) => {
+            setOutputSpectrum(ev.data.bands);
+          })
+          .catch(err => {
+            console.error('Error adding spectrum worklet:', err);
+          });
       });
     }
   }, [audioStreamerRef]);
@@ -103,167 +548,650 @@ export function useLiveApi({
     }
   }, [backgroundPadVolume]);
 
+  useEffect(() => {
+    audioStreamerRef.current?.setPadOptions(padOptions());
+    if (padSidechainDepthDb > 0) audioStreamerRef.current?.setPadDuck(1);
+  }, [padPreset, padCutoffHz, padDetuneCents, padSidechainDepthDb]);
+
   // Sync volume enabled state with gain node
   useEffect(() => {
     if (audioStreamerRef.current) {
-      audioStreamerRef.current.gainNode.gain.value = isVolumeEnabled ? 1 : 0;
+      audioStreamerRef.current.setMuted(!isVolumeEnabled);
     }
   }, [isVolumeEnabled]);
 
   useEffect(() => {
+    applyOutputRouting();
+  }, [applyOutputRouting, routing, voiceDeviceId, padDeviceId]);
+
+  // An unavailable device is used again once it is plugged back in
+  useEffect(() => {
+    const onDeviceChange = () => {
+      const { voiceDeviceUnavailable, padDeviceUnavailable } =
+        useOutputRouting.getState();
+      if (voiceDeviceUnavailable || padDeviceUnavailable) applyOutputRouting();
+    };
+    navigator.mediaDevices?.addEventListener('devicechange', onDeviceChange);
+    return () =>
+      navigator.mediaDevices?.removeEventListener('devicechange', onDeviceChange);
+  }, [applyOutputRouting]);
+
+  // Only the language the listener picked is heard, the others stay silent
+  const applyListening = useCallback(() => {
+    const heardChannel = channelsRef.current.find(
+      channel => channel.language === listenLanguage
+    );
+    audioStreamerRef.current?.voiceGain.gain.setValueAtTime(
+      heardChannel ? 0 : 1,
+      audioStreamerRef.current.context.currentTime
+    );
+    channelsRef.current.forEach(channel => {
+      channel.setHeard(channel === heardChannel);
+      channel.streamer.setMuted(!isVolumeEnabled);
+    });
+    updateDucking();
+    tapHeardVoice().catch(e =>
+      console.error('Could not record the heard language', e)
+    );
+  }, [listenLanguage, isVolumeEnabled, updateDucking, tapHeardVoice]);
+
+  useEffect(() => {
+    applyListening();
+  }, [applyListening]);
+
+  useEffect(() => {
+    client.sendQueue.setBudget(uploadBudgetKbps);
+    channelsRef.current.forEach(channel =>
+      channel.client.sendQueue.setBudget(uploadBudgetKbps)
+    );
+  }, [client, uploadBudgetKbps]);
+
+  useEffect(() => {
+    const options = { maxLagMs: maxOutputLagMs, catchUpRate };
+    audioStreamerRef.current?.setCatchUpOptions(options);
+    channelsRef.current.forEach(channel =>
+      channel.streamer.setCatchUpOptions(options)
+    );
+  }, [maxOutputLagMs, catchUpRate]);
+
+  useEffect(() => {
+    const options = { preset: voicePreset, targetLufs };
+    audioStreamerRef.current?.setVoiceProcessing(options);
+    channelsRef.current.forEach(channel =>
+      channel.streamer.setVoiceProcessing(options)
+    );
+  }, [voicePreset, targetLufs]);
+
+  useEffect(() => {
+    audioRecorderRef.current?.setVadOptions({
+      thresholdDb: vadThresholdDb,
+      hangoverMs: vadHangoverMs,
+    });
+  }, [vadThresholdDb, vadHangoverMs]);
+
+  useEffect(() => {
+    audioRecorderRef.current
+      ?.setMicrophoneOptions({
+        deviceId: microphoneDeviceId,
+        echoCancellation,
+        noiseSuppression,
+        autoGainControl,
+      })
+      .catch(e => console.warn('Could not switch the microphone', e));
+  }, [microphoneDeviceId, echoCancellation, noiseSuppression, autoGainControl]);
+
+  useEffect(() => {
+    audioRecorderRef.current?.setSourceGain('tab', tabInputGain / 100);
+    audioRecorderRef.current?.setSourceGain('microphone', micInputGain / 100);
+  }, [tabInputGain, micInputGain]);
+
+  useEffect(() => {
+    audioRecorderRef.current?.setFrameCaptureOptions({ maxFramesPerMinute });
+  }, [maxFramesPerMinute]);
+
+  const closeChannels = useCallback(() => {
+    channelsRef.current.forEach(channel => channel.dispose());
+    channelsRef.current = [];
+    useChannelsStore.getState().clear();
+  }, []);
+
+  // Open one session per additional language, fed by the shared capture
+  const openChannels = useCallback(async () => {
+    closeChannels();
+    if (!additionalLanguages.length) return;
+
+    const audioCtx = await audioContext({ id: 'audio-out' });
+    const { setStatus, appendTranscript } = useChannelsStore.getState();
+    const { maxOutputLagMs, catchUpRate, voicePreset, targetLufs } =
+      useSettings.getState();
+    const channels = additionalLanguages.map(({ language, voice }) => {
+      const streamer = new AudioStreamer(audioCtx);
+      streamer.setCatchUpOptions({ maxLagMs: maxOutputLagMs, catchUpRate });
+      streamer.setVoiceProcessing({ preset: voicePreset, targetLufs });
+      streamer.onPlaybackStart = updateDucking;
+      streamer.onComplete = updateDucking;
+      const channel = new InterpretationChannel(
+        language,
+        streamer,
+        () => createLiveClient(auth, model)
+      );
+      channel.voiceEnabled = outputMode === 'voice';
+      channel.on('status', status => setStatus(language, status));
+      channel.on('transcript', text => appendTranscript(language, text));
+      channel.on('usage', usage => useUsageStore.getState().addUsage(usage));
+      return { channel, voice };
+    });
+    channelsRef.current = channels.map(({ channel }) => channel);
+    applyListening();
+    applyOutputRouting();
+
+    await Promise.all(
+      channels.map(({ channel, voice }) =>
+        channel.connect(
+          channelConfig(config, channel.language, voice, mediaTitle)
+        )
+      )
+    );
+  }, [
+    additionalLanguages,
+    auth,
+    model,
+    config,
+    mediaTitle,
+    outputMode,
+    applyListening,
+    applyOutputRouting,
+    updateDucking,
+    closeChannels,
+  ]);
+
+  // Hand playback back to the live client once a replay ends
+  const endReplay = useCallback(() => {
+    if (!replayRef.current) return;
+    replayRef.current = null;
+    setReplaying(false);
+    setClient(baseClient);
+  }, [baseClient]);
+
+  // Content listeners of each client. A rolled over client gets them before
+  // it connects, so nothing it sends ahead of becoming the client is missed.
+  const contentBindingsRef = useRef(new Map<GenAILiveClient, () => void>());
+
+  const bindContent = useCallback(
+    (target: GenAILiveClient) => {
+      const onUsage = (usage: UsageMetadata) => {
+        useUsageStore.getState().addUsage(usage);
+      };
+
+      const onOutputTranscription = (text: string) => {
+        recentOutputRef.current = (recentOutputRef.current + text).slice(
+          -SESSION_CARRY_OVER_CHARS
+        );
+      };
+
+      const stopAudioStreamer = () => {
+        latencyTracker.turnEnded();
+        if (audioStreamerRef.current) {
+          audioStreamerRef.current.stop();
+        }
+      };
+
+      const onInputTranscription = () => {
+        latencyTracker.inputTranscription();
+      };
+
+      const onTurnComplete = () => {
+        latencyTracker.turnEnded();
+      };
+
+      const onAudio = (data: ArrayBuffer) => {
+        latencyTracker.audioReceived();
+        // Subtitle sessions are only transcribed
+        if (useSettings.getState().outputMode === 'subtitles') return;
+        if (audioStreamerRef.current) {
+          audioStreamerRef.current.addPCM16(new Uint8Array(data));
+        }
+      };
+
+      const onToolCall = (toolCall: LiveServerToolCall) => {
+        const functionResponses: any[] = [];
+
+        for (const fc of toolCall.functionCalls) {
+          const triggerMessage = `Triggering function call: **${
+            fc.name
+          }**\n\`\`\`json\n${JSON.stringify(fc.args, null, 2)}\n\`\`\``;
+          useLogStore.getState().addTurn({
+            role: 'system',
+            text: triggerMessage,
+            isFinal: true,
+          });
+
+          functionResponses.push({
+            id: fc.id,
+            name: fc.name,
+            response: { result: 'ok' },
+          });
+        }
+
+        if (functionResponses.length > 0) {
+          const responseMessage = `Function call response:\n\`\`\`json\n${JSON.stringify(
+            functionResponses,
+            null,
+            2,
+          )}\n\`\`\``;
+          useLogStore.getState().addTurn({
+            role: 'system',
+            text: responseMessage,
+            isFinal: true,
+          });
+        }
+
+        target.sendToolResponse({ functionResponses: functionResponses });
+      };
+
+      const { setStats } = useSendStatsStore.getState();
+      const { addLog } = useStreamingLogStore.getState();
+
+      target.on('interrupted', stopAudioStreamer);
+      target.on('audio', onAudio);
+      target.on('outputTranscription', onOutputTranscription);
+      target.on('text', onOutputTranscription);
+      target.on('usage', onUsage);
+      target.on('inputTranscription', onInputTranscription);
+      target.on('turncomplete', onTurnComplete);
+      target.on('toolcall', onToolCall);
+      target.on('sendstats', setStats);
+      target.on('log', addLog);
+
+      const unbind = () => {
+        target.off('interrupted', stopAudioStreamer);
+        target.off('audio', onAudio);
+        target.off('outputTranscription', onOutputTranscription);
+        target.off('text', onOutputTranscription);
+        target.off('usage', onUsage);
+        target.off('inputTranscription', onInputTranscription);
+        target.off('turncomplete', onTurnComplete);
+        target.off('toolcall', onToolCall);
+        target.off('sendstats', setStats);
+        target.off('log', addLog);
+        contentBindingsRef.current.delete(target);
+      };
+      contentBindingsRef.current.set(target, unbind);
+      return unbind;
+    },
+    [latencyTracker]
+  );
+
+  useEffect(() => {
+    // Keep recording across rollovers and replays
+    client.recorder = sessionRecorderRef.current;
+
     const onOpen = () => {
       setConnected(true);
     };
 
     const onClose = () => {
       setConnected(false);
-      // Clear video loop
-      if (videoIntervalRef.current) {
-        window.clearInterval(videoIntervalRef.current);
-        videoIntervalRef.current = null;
+      setReconnecting(false);
+      setSessionStartedAt(null);
+      detachRecorder();
+      closeChannels();
+      endUsageSession();
+      if (replayRef.current?.client === client) {
+        endReplay();
       }
     };
 
-    const stopAudioStreamer = () => {
-      if (audioStreamerRef.current) {
-        audioStreamerRef.current.stop();
-      }
+    const onReconnecting = () => {
+      setReconnecting(true);
+      latencyTracker.turnEnded();
+      detachRecorder();
+      // Audio of the dropped session will not be continued
+      audioStreamerRef.current?.stop();
     };
 
-    const onAudio = (data: ArrayBuffer) => {
-      if (audioStreamerRef.current) {
-        audioStreamerRef.current.addPCM16(new Uint8Array(data));
+    const onReconnected = () => {
+      setReconnecting(false);
+      setConnected(true);
+      applyOutputRouting();
+      if (audioRecorderRef.current) {
+        attachRecorder(audioRecorderRef.current, client);
       }
     };
 
     // Bind event listeners
     client.on('open', onOpen);
     client.on('close', onClose);
-    client.on('interrupted', stopAudioStreamer);
-    client.on('audio', onAudio);
-
-    const onToolCall = (toolCall: LiveServerToolCall) => {
-      const functionResponses: any[] = [];
-
-      for (const fc of toolCall.functionCalls) {
-        const triggerMessage = `Triggering function call: **${
-          fc.name
-        }**\n\`\`\`json\n${JSON.stringify(fc.args, null, 2)}\n\`\`\``;
-        useLogStore.getState().addTurn({
-          role: 'system',
-          text: triggerMessage,
-          isFinal: true,
-        });
+    client.on('reconnecting', onReconnecting);
+    client.on('reconnected', onReconnected);
+    client.on('error', setError);
+    // Already bound when the client comes from a rollover
+    if (!contentBindingsRef.current.has(client)) bindContent(client);
 
-        functionResponses.push({
-          id: fc.id,
-          name: fc.name,
-          response: { result: 'ok' },
-        });
-      }
+    return () => {
+      client.off('open', onOpen);
+      client.off('close', onClose);
+      client.off('reconnecting', onReconnecting);
+      client.off('reconnected', onReconnected);
+      client.off('error', setError);
+      contentBindingsRef.current.get(client)?.();
+    };
+  }, [
+    client,
+    attachRecorder,
+    detachRecorder,
+    closeChannels,
+    endReplay,
+    latencyTracker,
+    bindContent,
+  ]);
 
-      if (functionResponses.length > 0) {
-        const responseMessage = `Function call response:\n\`\`\`json\n${JSON.stringify(
-          functionResponses,
-          null,
-          2,
-        )}\n\`\`\``;
-        useLogStore.getState().addTurn({
-          role: 'system',
-          text: responseMessage,
-          isFinal: true,
-        });
+  // Start a pending replay once its client is active and listened to
+  useEffect(() => {
+    const replay = replayRef.current;
+    if (!replay || replay.client !== client) return;
+
+    audioStreamerRef.current?.resume().catch(e => console.warn(e));
+    client.connect(replay.config);
+  }, [client]);
+
+  // Audio+video sessions have a hard time limit. Shortly before it, open a
+  // fresh session seeded with the recent interpretation, move the capture
+  // over to it and cross-fade the voice so listeners hear no gap.
+  useEffect(() => {
+    if (sessionStartedAt === null) return;
+
+    let cancelled = false;
+    const delay = Math.max(
+      0,
+      sessionStartedAt +
+        AUDIO_VIDEO_SESSION_LIMIT_MS -
+        SESSION_ROLLOVER_LEAD_MS -
+        Date.now()
+    );
+
+    const timer = window.setTimeout(async () => {
+      logSystemTurn(
+        'Session rollover: opening a new session before the time limit.'
+      );
+      const next = createLiveClient(auth, model);
+      const unbindNext = bindContent(next);
+      const ok = await next.connect(
+        withCarryOverContext(config, recentOutputRef.current)
+      );
+      if (cancelled || !ok) {
+        unbindNext();
+        next.disconnect();
+      }
+      if (cancelled) return;
+      if (!ok) {
+        logSystemTurn(
+          'Session rollover failed, continuing on the current session.'
+        );
+        return;
       }
 
-      client.sendToolResponse({ functionResponses: functionResponses });
-    };
+      if (audioRecorderRef.current) {
+        attachRecorder(audioRecorderRef.current, next);
+      }
+      // The replaced session plays out on the fading bus, then closes
+      contentBindingsRef.current.get(client)?.();
+      const playOutgoing = audioStreamerRef.current?.crossfade(
+        SESSION_ROLLOVER_CROSSFADE_S
+      );
+      next.recorder = client.recorder;
+      client.retire(SESSION_ROLLOVER_CROSSFADE_S * 1000, data =>
+        playOutgoing?.(new Uint8Array(data))
+      );
+      setClient(next);
+      setSessionStartedAt(Date.now());
 
-    client.on('toolcall', onToolCall);
+      // Language channels were opened together with the main session
+      await Promise.all(
+        channelsRef.current.map(async channel => {
+          const { voice } =
+            additionalLanguages.find(c => c.language === channel.language) ||
+            {};
+          const rolled = await channel.rollover(
+            channelConfig(config, channel.language, voice || '', mediaTitle),
+            SESSION_ROLLOVER_CROSSFADE_S
+          );
+          if (!rolled) {
+            logSystemTurn(
+              `Session rollover failed for ${channel.language}, continuing on its current session.`
+            );
+          }
+        })
+      );
+      logSystemTurn('Session rollover complete, interpretation continues.');
+    }, delay);
 
     return () => {
-      client.off('open', onOpen);
-      client.off('close', onClose);
-      client.off('interrupted', stopAudioStreamer);
-      client.off('audio', onAudio);
-      client.off('toolcall', onToolCall);
+      cancelled = true;
+      window.clearTimeout(timer);
     };
-  }, [client]);
+  }, [
+    sessionStartedAt,
+    client,
+    config,
+    auth,
+    model,
+    additionalLanguages,
+    mediaTitle,
+    attachRecorder,
+    bindContent,
+  ]);
 
-  // Standard Connect (Mic or Default)
-  const connect = useCallback(async () => {
+  // Opens a session fed by the given input: the microphone, a shared tab
+  // or screen with its audio, or the two together
+  const connectWithInput = useCallback(async (mode: InputMode) => {
     if (!config) throw new Error('config has not been set');
-    
+    connectModeRef.current = mode;
+    setError(null);
+
     // Disconnect previous session
     client.disconnect();
-    
-    // Resume audio context
-    if (audioStreamerRef.current) {
+    detachRecorder();
+    audioRecorderRef.current?.stop();
+    audioRecorderRef.current = null;
+
+    // Resume audio context, subtitle-only sessions never play audio
+    if (audioStreamerRef.current && outputMode === 'voice') {
       try {
         await audioStreamerRef.current.resume();
         if (backgroundPadEnabled) {
           audioStreamerRef.current.startPad(backgroundPadVolume);
         }
+        await applyOutputRouting();
       } catch (e) {
-        console.warn('Failed to resume audio context:', e);
+        setError(
+          new AudioContextError('Could not start audio playback.', { cause: e })
+        );
+        return;
       }
     }
 
-    await client.connect(config);
-  }, [client, config, backgroundPadEnabled, backgroundPadVolume]);
-
-  // Screen/Tab Audio Connect
-  const connectWithScreenAudio = useCallback(async () => {
-    if (!config) throw new Error('config has not been set');
-    client.disconnect();
+    const recorder = new AudioRecorder();
+    recorder.setVadOptions({
+      thresholdDb: vadThresholdDb,
+      hangoverMs: vadHangoverMs,
+    });
+    recorder.setSourceGain('tab', tabInputGain / 100);
+    recorder.setSourceGain('microphone', micInputGain / 100);
+    recorder.setFrameCaptureOptions({ maxFramesPerMinute });
+    recorder.on('framestats', useSendStatsStore.getState().setFrames);
+    useSendStatsStore.getState().setFrames(null);
+    audioRecorderRef.current = recorder;
+    const { deviceId, echoCancellation, noiseSuppression, autoGainControl } =
+      useMicrophoneSettings.getState();
+    const microphoneOptions = {
+      deviceId,
+      echoCancellation,
+      noiseSuppression,
+      autoGainControl,
+    };
 
-    if (audioStreamerRef.current) {
-        try {
-          await audioStreamerRef.current.resume();
-          if (backgroundPadEnabled) {
-            audioStreamerRef.current.startPad(backgroundPadVolume);
-          }
-        } catch (e) { console.warn(e); }
+    try {
+      if (mode === 'mic') {
+        await recorder.start(microphoneOptions);
+      } else {
+        await recorder.startScreenCapture(
+          mode === 'both' ? microphoneOptions : undefined
+        );
+      }
+    } catch (e) {
+      audioRecorderRef.current = null;
+      setError(toLiveError(e));
+      return;
     }
 
-    // Init Audio Recorder with Screen Capture
-    const recorder = new AudioRecorder();
-    audioRecorderRef.current = recorder;
-    
-    // Start Screen Capture
-    await recorder.startScreenCapture();
+    // Hook up audio and the vision frame loop
+    attachRecorder(recorder, client);
 
-    // Hook up listener for Audio
-    const onData = (base64: string) => {
-       client.sendRealtimeInput([{ mimeType: 'audio/pcm;rate=16000', data: base64 }]);
-    };
-    recorder.on('data', onData);
+    recentOutputRef.current = '';
+    endUsageSession();
+    useUsageStore.getState().startSession();
+    useLatencyStore.getState().reset();
+    latencyTracker.turnEnded();
+    sessionOriginRef.current = Date.now();
+    // The activity mode is fixed for the session, rollovers and language
+    // channels pick it up in createLiveClient
+    client.activityMode = useSettings.getState().activityMode;
+    if (await client.connect(config)) {
+      // Only sessions streaming video frames have the short time limit
+      if (mode !== 'mic') setSessionStartedAt(Date.now());
+      await openChannels();
+    }
+  }, [client, config, backgroundPadEnabled, backgroundPadVolume, attachRecorder, detachRecorder, openChannels, latencyTracker, vadThresholdDb, vadHangoverMs, tabInputGain, micInputGain, maxFramesPerMinute, outputMode, applyOutputRouting]);
 
-    // Setup Video Loop for Vision (Captions)
-    // Send a frame every 1 second
-    if (videoIntervalRef.current) clearInterval(videoIntervalRef.current);
-    videoIntervalRef.current = window.setInterval(async () => {
-        const frameBase64 = await recorder.captureFrame();
-        if (frameBase64) {
-            client.sendRealtimeInput([{ mimeType: 'image/jpeg', data: frameBase64 }]);
-        }
-    }, 1000);
-    
-    // Connect to Client
-    await client.connect(config);
-  }, [client, config, backgroundPadEnabled, backgroundPadVolume]);
+  const connect = useCallback(async () => {
+    const { inputMode } = useSettings.getState();
+    if (!inputMode) throw new Error('input mode has not been chosen');
+    await connectWithInput(inputMode);
+  }, [connectWithInput]);
+
+  const connectWithScreenAudio = useCallback(async () => {
+    const { inputMode } = useSettings.getState();
+    await connectWithInput(inputMode === 'both' ? 'both' : 'tab');
+  }, [connectWithInput]);
 
   const disconnect = useCallback(async () => {
     client.disconnect();
-    if (videoIntervalRef.current) {
-        window.clearInterval(videoIntervalRef.current);
-        videoIntervalRef.current = null;
-    }
+    closeChannels();
+    detachRecorder();
     if (audioRecorderRef.current) {
         audioRecorderRef.current.stop();
         audioRecorderRef.current = null;
     }
     setConnected(false);
-  }, [setConnected, client]);
+    setReconnecting(false);
+    setSessionStartedAt(null);
+    sessionOriginRef.current = null;
+    endUsageSession();
+    endReplay();
+  }, [setConnected, client, closeChannels, detachRecorder, endReplay]);
+
+  const startRecording = useCallback(() => {
+    const recorder = new SessionRecorder(client.model, config, () =>
+      logSystemTurn(
+        'The session recording is out of storage, stop recording to save what was recorded so far.'
+      )
+    );
+    sessionRecorderRef.current = recorder;
+    client.recorder = recorder;
+    setRecording(true);
+  }, [client, config]);
+
+  const stopRecording = useCallback(() => {
+    const recorder = sessionRecorderRef.current;
+    sessionRecorderRef.current = null;
+    client.recorder = null;
+    setRecording(false);
+    if (recorder && recorder.eventCount > 0) {
+      recorder
+        .download()
+        .catch(e => console.error('Could not export the session', e));
+    }
+  }, [client]);
+
+  const startDubbing = useCallback(async () => {
+    const streamer = audioStreamerRef.current;
+    if (!streamer || dubRecorderRef.current) return;
+    const { dubStems, dubIncludeSource } = useSettings.getState();
+    const recorder = new DubRecorder(dubStems, sessionOriginRef.current, () =>
+      logSystemTurn(
+        'The dub recording is out of storage, stop dubbing to save what was recorded so far.'
+      )
+    );
+    dubRecorderRef.current = recorder;
+    setDubbing(true);
+    try {
+      await tapHeardVoice();
+      await recorder.tap('pad', streamer.padBus);
+      const source = audioRecorderRef.current?.source;
+      if (dubIncludeSource && source) {
+        await recorder.tap('source', source);
+      }
+    } catch (e) {
+      console.error('Could not start recording the dub', e);
+      dubRecorderRef.current = null;
+      setDubbing(false);
+    }
+  }, [tapHeardVoice]);
+
+  const stopDubbing = useCallback(() => {
+    const recorder = dubRecorderRef.current;
+    dubRecorderRef.current = null;
+    setDubbing(false);
+    recorder
+      ?.download()
+      .catch(e => console.error('Could not export the dub', e));
+  }, []);
+
+  // Feed a recorded session back through the regular client events
+  const replaySession = useCallback(
+    (recording: SessionRecording) => {
+      client.disconnect();
+      closeChannels();
+      detachRecorder();
+      if (audioRecorderRef.current) {
+        audioRecorderRef.current.stop();
+        audioRecorderRef.current = null;
+      }
+
+      const replayClient = new GenAILiveClient(
+        new ReplayLiveTransport(recording),
+        recording.model,
+        // A replay that ends must not be restarted from the top
+        { enabled: false }
+      );
+      replayRef.current = {
+        client: replayClient,
+        config: recording.config ?? config,
+      };
+      setReplaying(true);
+      setClient(replayClient);
+    },
+    [client, config, closeChannels, detachRecorder]
+  );
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  const retry = useCallback(async () => {
+    disconnect();
+    await connectWithInput(connectModeRef.current);
+  }, [disconnect, connectWithInput]);
+
+  const switchKey = useCallback(async () => {
+    setError(null);
+    try {
+      await auth.switchKey?.();
+    } catch (e) {
+      setError(toLiveError(e));
+      return;
+    }
+    await retry();
+  }, [auth, retry]);
 
   return {
     client,
@@ -273,8 +1201,29 @@ export function useLiveApi({
     connectWithScreenAudio,
     disconnect,
     connected,
+    reconnecting,
+    speaking,
+    recording,
+    startRecording,
+    stopRecording,
+    replaying,
+    replaySession,
+    dubbing,
+    startDubbing,
+    stopDubbing,
     volume,
+    outputSpectrum,
+    inputSpectrum,
+    inputVolume,
+    inputSourceVolumes,
+    playbackLag,
+    voiceLoudness,
+    sourceDuck,
     isVolumeEnabled,
     setIsVolumeEnabled,
+    error,
+    dismissError,
+    retry,
+    switchKey,
   };
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useState } from 'react';
+import { listMicrophones } from '@/lib/audio-recorder';
+
+/**
+ * Microphones, updated when devices are plugged in or removed.
+ */
+export function useMicrophones(): MediaDeviceInfo[] {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const update = () =>
+      listMicrophones()
+        .then(list => !cancelled && setDevices(list))
+        .catch(e => console.warn('Could not list microphones', e));
+    update();
+    navigator.mediaDevices?.addEventListener('devicechange', update);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener('devicechange', update);
+    };
+  }, []);
+
+  return devices;
+}
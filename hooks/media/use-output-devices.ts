@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useState } from 'react';
+import { listOutputDevices } from '@/lib/output-devices';
+
+/**
+ * Audio output devices, updated when devices are plugged in or removed.
+ */
+export function useOutputDevices(): MediaDeviceInfo[] {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const update = () =>
+      listOutputDevices()
+        .then(list => !cancelled && setDevices(list))
+        .catch(e => console.warn('Could not list output devices', e));
+    update();
+    navigator.mediaDevices?.addEventListener('devicechange', update);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener('devicechange', update);
+    };
+  }, []);
+
+  return devices;
+}
@@ -21,9 +21,12 @@
 import { audioContext } from './utils';
 import AudioRecordingWorklet from './worklets/audio-processing';
 import VolMeterWorket from './worklets/vol-meter';
+import VadWorklet from './worklets/vad';
+import SpectrumWorklet from './worklets/spectrum';
 
 import { createWorketFromSrc } from './audioworklet-registry';
 import EventEmitter from 'eventemitter3';
+import { AudioContextError, MediaPermissionError } from './errors';
 
 function arrayBufferToBase64(buffer: ArrayBuffer) {
   var binary = '';
@@ -35,6 +38,157 @@ function arrayBufferToBase64(buffer: ArrayBuffer) {
   return window.btoa(binary);
 }
 
+export interface VadOptions {
+  // Level in dBFS above which input counts as speech
+  thresholdDb: number;
+  // How long the level must stay above the threshold to start speech
+  attackMs: number;
+  // How long speech continues after the level dropped below the threshold
+  hangoverMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  thresholdDb: -45,
+  attackMs: 60,
+  hangoverMs: 600,
+};
+
+export interface MicrophoneOptions {
+  // '' is the system default microphone
+  deviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MICROPHONE_OPTIONS: MicrophoneOptions = {
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+function processingConstraints({
+  echoCancellation,
+  noiseSuppression,
+  autoGainControl,
+}: MicrophoneOptions): MediaTrackConstraints {
+  return { echoCancellation, noiseSuppression, autoGainControl };
+}
+
+function microphoneConstraints(options: MicrophoneOptions): MediaTrackConstraints {
+  return {
+    ...processingConstraints(options),
+    ...(options.deviceId && { deviceId: { exact: options.deviceId } }),
+  };
+}
+
+export interface FrameCaptureOptions {
+  // Frames are compared in a grid of regions, a frame is sent once any
+  // region changed by this much, 0 to 1
+  changeThreshold: number;
+  // A region change from this much on is a cut or a new caption, and
+  // frames are captured at the burst interval for a while
+  cutThreshold: number;
+  intervalMs: number;
+  burstIntervalMs: number;
+  burstDurationMs: number;
+  // Frames sent in any minute, 0 is unlimited
+  maxFramesPerMinute: number;
+}
+
+export const DEFAULT_FRAME_CAPTURE_OPTIONS: FrameCaptureOptions = {
+  changeThreshold: 0.015,
+  cutThreshold: 0.06,
+  intervalMs: 1000,
+  burstIntervalMs: 333,
+  burstDurationMs: 2000,
+  maxFramesPerMinute: 60,
+};
+
+/**
+ * Frames captured since screen capture started. Sent frames went out through
+ * the send queue, skipped frames did not change enough to be sent, frames
+ * over budget changed but were held back.
+ */
+export interface FrameStats {
+  sent: number;
+  skipped: number;
+  overBudget: number;
+  bursts: number;
+  // Largest region change of the last captured frame
+  change: number;
+}
+
+const EMPTY_FRAME_STATS: FrameStats = {
+  sent: 0,
+  skipped: 0,
+  overBudget: 0,
+  bursts: 0,
+  change: 0,
+};
+
+// Captured frames that may still be sent, see frameSent()
+const MAX_PENDING_FRAMES = 4;
+
+// Frames are compared as grayscale thumbnails, in a grid of regions so a
+// caption line changes its region clearly instead of a sliver of the whole
+const THUMBNAIL_WIDTH = 64;
+const THUMBNAIL_HEIGHT = 36;
+const REGION_COLUMNS = 8;
+const REGION_ROWS = 4;
+
+function createCanvas(width: number, height: number) {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function luma(data: Uint8ClampedArray) {
+  const values = new Uint8Array(data.length / 4);
+  for (let i = 0; i < values.length; i++) {
+    values[i] =
+      (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+  return values;
+}
+
+/**
+ * Largest mean difference of any region between two thumbnails, 0 to 1.
+ */
+function regionChange(a: Uint8Array, b: Uint8Array) {
+  const sums = new Float64Array(REGION_COLUMNS * REGION_ROWS);
+  for (let y = 0; y < THUMBNAIL_HEIGHT; y++) {
+    const row = Math.floor((y * REGION_ROWS) / THUMBNAIL_HEIGHT);
+    for (let x = 0; x < THUMBNAIL_WIDTH; x++) {
+      const column = Math.floor((x * REGION_COLUMNS) / THUMBNAIL_WIDTH);
+      const i = y * THUMBNAIL_WIDTH + x;
+      sums[row * REGION_COLUMNS + column] += Math.abs(a[i] - b[i]);
+    }
+  }
+  const regionPixels =
+    (THUMBNAIL_WIDTH * THUMBNAIL_HEIGHT) / (REGION_COLUMNS * REGION_ROWS);
+  return Math.max(...sums) / regionPixels / 255;
+}
+
+// A captured source, tab stands for any display capture
+export type InputSource = 'tab' | 'microphone';
+
+/**
+ * Microphones, labelled once the page has any media permission.
+ */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(
+    device => device.kind === 'audioinput' && device.deviceId !== 'default'
+  );
+}
+
 // FIX: Refactored to use composition over inheritance for EventEmitter
 export class AudioRecorder {
   // FIX: Use an internal EventEmitter instance
@@ -44,48 +198,97 @@ export class AudioRecorder {
   public on = this.emitter.on.bind(this.emitter);
   public off = this.emitter.off.bind(this.emitter);
 
+  // Display capture, the microphone is captured as a stream of its own
   stream: MediaStream | undefined;
+  microphoneStream: MediaStream | undefined;
   audioContext: AudioContext | undefined;
-  source: MediaStreamAudioSourceNode | undefined;
+  // All captured audio, as sent to the session
+  source: AudioNode | undefined;
+  private microphoneSource: MediaStreamAudioSourceNode | undefined;
+  // Gain of each source in the mix, metered after the gain
+  private sourceGains: Partial<Record<InputSource, GainNode>> = {};
+  private sourceMeters: AudioWorkletNode[] = [];
+  private gains: Record<InputSource, number> = { tab: 1, microphone: 1 };
   recording: boolean = false;
   recordingWorklet: AudioWorkletNode | undefined;
   vuWorklet: AudioWorkletNode | undefined;
+  vadWorklet: AudioWorkletNode | undefined;
+  spectrumWorklet: AudioWorkletNode | undefined;
+
+  // Voice activity as last reported by the VAD worklet
+  speaking = false;
+  private vadOptions: VadOptions = DEFAULT_VAD_OPTIONS;
+  private microphoneOptions: MicrophoneOptions = DEFAULT_MICROPHONE_OPTIONS;
   
   // Vision Support
   videoTrack: MediaStreamTrack | undefined;
   captureCanvas: OffscreenCanvas | HTMLCanvasElement | undefined;
   captureCtx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null | undefined;
+  private thumbnailCtx:
+    | OffscreenCanvasRenderingContext2D
+    | CanvasRenderingContext2D
+    | null = null;
+  // Thumbnail of the last frame sent
+  private lastSentFrame: Uint8Array | null = null;
+  // Thumbnails of captured frames not yet sent, by their base64 JPEG
+  private pendingFrames = new Map<string, Uint8Array>();
+  // Send times within the last minute, for the frame budget
+  private sentFrameTimes: number[] = [];
+  private burstUntil = 0;
+  private frameOptions: FrameCaptureOptions = DEFAULT_FRAME_CAPTURE_OPTIONS;
+  frameStats: FrameStats = EMPTY_FRAME_STATS;
 
   private starting: Promise<void> | null = null;
 
+  // Rate of the PCM emitted as 'data', the context runs at the device's rate
   constructor(public sampleRate = 16000) {}
 
-  async start() {
+  /**
+   * Captures the microphone. Resolves once capture is running.
+   * @throws MediaPermissionError when the microphone is denied or missing
+   * @throws AudioContextError when the audio graph cannot be set up
+   */
+  async start(microphone: MicrophoneOptions = this.microphoneOptions) {
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-      console.warn('Navigator mediaDevices not supported. Microphone unavailable.');
-      return;
+      throw new MediaPermissionError(
+        'Microphone capture is not supported by this browser.'
+      );
     }
+    this.microphoneOptions = microphone;
 
     this.starting = new Promise(async (resolve, reject) => {
       try {
-        this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        this.microphoneStream = await this.openMicrophone();
+        await this.startAudioGraph();
       } catch (e) {
-        console.warn('Microphone access denied or unavailable. Proceeding in listen-only mode.', e);
-        resolve();
+        reject(e);
         return;
       }
-      
-      await this.initializeAudioGraph();
       resolve();
-      this.starting = null;
     });
+
+    try {
+      await this.starting;
+    } catch (e) {
+      this.emitter.emit('error', e);
+      throw e;
+    } finally {
+      this.starting = null;
+    }
   }
-  
-  // New method for capturing system/tab audio AND video
-  async startScreenCapture() {
+
+  /**
+   * Captures system/tab audio AND video. Resolves once capture is running.
+   * @param microphone - Also capture the microphone, mixed with the tab audio
+   * @throws MediaPermissionError when screen sharing or the microphone is
+   * denied or unsupported
+   * @throws AudioContextError when the audio graph cannot be set up
+   */
+  async startScreenCapture(microphone?: MicrophoneOptions) {
     if (!navigator.mediaDevices || !navigator.mediaDevices.getDisplayMedia) {
-      console.warn('Screen capture not supported.');
-      return;
+      throw new MediaPermissionError(
+        'Screen capture is not supported by this browser.'
+      );
     }
 
     this.starting = new Promise(async (resolve, reject) => {
@@ -100,17 +303,22 @@ export class AudioRecorder {
             autoGainControl: false,
             echoCancellation: false,
             noiseSuppression: false,
-            channelCount: 1, 
-            sampleRate: 16000
           },
           // @ts-ignore
           systemAudio: 'include',
           surfaceSwitching: 'include',
           monitorTypeSurfaces: 'include'
         });
-      } catch (e) {
+      } catch (e: any) {
         console.warn('Screen capture denied.', e);
-        resolve();
+        reject(
+          new MediaPermissionError(
+            e?.name === 'NotAllowedError'
+              ? 'Screen sharing was cancelled or denied.'
+              : `Screen capture failed: ${e?.message || e}`,
+            { cause: e }
+          )
+        );
         return;
       }
       
@@ -123,23 +331,92 @@ export class AudioRecorder {
       if (vidTracks.length > 0) {
           this.videoTrack = vidTracks[0];
           // Initialize canvas
-          if (typeof OffscreenCanvas !== 'undefined') {
-              this.captureCanvas = new OffscreenCanvas(640, 360);
-              this.captureCtx = this.captureCanvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
-          } else {
-              this.captureCanvas = document.createElement('canvas');
-              this.captureCanvas.width = 640;
-              this.captureCanvas.height = 360;
-              this.captureCtx = (this.captureCanvas as HTMLCanvasElement).getContext('2d');
-          }
+          this.captureCanvas = createCanvas(640, 360);
+          this.captureCtx = this.captureCanvas.getContext('2d') as
+            | OffscreenCanvasRenderingContext2D
+            | CanvasRenderingContext2D;
+          this.thumbnailCtx = createCanvas(
+            THUMBNAIL_WIDTH,
+            THUMBNAIL_HEIGHT
+          ).getContext('2d', { willReadFrequently: true }) as
+            | OffscreenCanvasRenderingContext2D
+            | CanvasRenderingContext2D;
+          this.resetFrameBaseline();
+          this.sentFrameTimes = [];
+          this.burstUntil = 0;
+          this.frameStats = EMPTY_FRAME_STATS;
       }
 
-      await this.initializeAudioGraph();
+      try {
+        if (microphone) {
+          this.microphoneOptions = microphone;
+          this.microphoneStream = await this.openMicrophone();
+        }
+        await this.startAudioGraph();
+      } catch (e) {
+        this.stream.getTracks().forEach(track => track.stop());
+        reject(e);
+        return;
+      }
       resolve();
-      this.starting = null;
     });
+
+    try {
+      await this.starting;
+    } catch (e) {
+      this.emitter.emit('error', e);
+      throw e;
+    } finally {
+      this.starting = null;
+    }
   }
   
+  /**
+   * How long to wait before capturing the next frame, shorter while
+   * bursting after a cut.
+   */
+  get frameIntervalMs() {
+    return performance.now() < this.burstUntil
+      ? this.frameOptions.burstIntervalMs
+      : this.frameOptions.intervalMs;
+  }
+
+  setFrameCaptureOptions(options: Partial<FrameCaptureOptions>) {
+    this.frameOptions = { ...this.frameOptions, ...options };
+  }
+
+  /**
+   * Forgets the last frame sent, the next capture goes out whatever it
+   * shows. Called when frames go to a new session.
+   */
+  resetFrameBaseline() {
+    this.lastSentFrame = null;
+    this.pendingFrames.clear();
+  }
+
+  /**
+   * Makes a captured frame the one later captures are compared to, once the
+   * send queue sent it, and counts it against the frame budget. Frames
+   * captured before it are not sent any longer. Emits 'framestats'.
+   */
+  frameSent(data: string) {
+    const frame = this.pendingFrames.get(data);
+    if (!frame) return;
+    this.lastSentFrame = frame;
+    for (const key of this.pendingFrames.keys()) {
+      this.pendingFrames.delete(key);
+      if (key === data) break;
+    }
+    this.sentFrameTimes.push(performance.now());
+    this.frameStats = { ...this.frameStats, sent: this.frameStats.sent + 1 };
+    this.emitter.emit('framestats', this.frameStats);
+  }
+
+  /**
+   * Captures a frame as base64 JPEG. Resolves null when capture failed, the
+   * frame barely differs from the last one sent or the frame budget is
+   * spent. Emits 'framestats' after every capture.
+   */
   async captureFrame(): Promise<string | null> {
       if (!this.videoTrack || !this.captureCtx || !this.captureCanvas) return null;
       
@@ -155,14 +432,19 @@ export class AudioRecorder {
               const capturer = new ImageCapture(this.videoTrack);
               const bitmap = await capturer.grabFrame();
               this.captureCtx.drawImage(bitmap, 0, 0, this.captureCanvas.width, this.captureCanvas.height);
-              
+              const thumbnail = this.frameToSend();
+              if (thumbnail === false) return null;
+
               // Convert to base64 jpeg
+              let data: string;
               if (this.captureCanvas instanceof OffscreenCanvas) {
                   const blob = await this.captureCanvas.convertToBlob({ type: 'image/jpeg', quality: 0.6 });
-                  return this.blobToBase64(blob);
+                  data = await this.blobToBase64(blob);
               } else {
-                  return (this.captureCanvas as HTMLCanvasElement).toDataURL('image/jpeg', 0.6).split(',')[1];
+                  data = (this.captureCanvas as HTMLCanvasElement).toDataURL('image/jpeg', 0.6).split(',')[1];
               }
+              if (thumbnail) this.addPendingFrame(data, thumbnail);
+              return data;
           }
       } catch (e) {
           console.debug('Frame capture failed', e);
@@ -170,6 +452,103 @@ export class AudioRecorder {
       return null;
   }
 
+  // Compares the frame on the capture canvas with the last one sent and
+  // accounts for it in the frame stats. Returns its thumbnail when it is to
+  // be sent, null when frames can not be compared and false to skip it.
+  private frameToSend(): Uint8Array | null | false {
+    if (!this.thumbnailCtx || !this.captureCanvas) return null;
+    const { changeThreshold, cutThreshold, burstDurationMs, maxFramesPerMinute } =
+      this.frameOptions;
+    this.thumbnailCtx.drawImage(
+      this.captureCanvas,
+      0,
+      0,
+      THUMBNAIL_WIDTH,
+      THUMBNAIL_HEIGHT
+    );
+    const frame = luma(
+      this.thumbnailCtx.getImageData(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT)
+        .data
+    );
+    const change = this.lastSentFrame
+      ? regionChange(frame, this.lastSentFrame)
+      : 1;
+    const now = performance.now();
+    const stats = { ...this.frameStats, change };
+    let send = change >= changeThreshold;
+
+    if (change >= cutThreshold) {
+      if (now >= this.burstUntil) stats.bursts++;
+      this.burstUntil = now + burstDurationMs;
+    }
+    this.sentFrameTimes = this.sentFrameTimes.filter(t => now - t < 60000);
+    if (!send) {
+      stats.skipped++;
+    } else if (
+      maxFramesPerMinute > 0 &&
+      this.sentFrameTimes.length >= maxFramesPerMinute
+    ) {
+      // Kept as changed, the frame goes out once the budget allows
+      stats.overBudget++;
+      send = false;
+    }
+    this.frameStats = stats;
+    this.emitter.emit('framestats', stats);
+    return send && frame;
+  }
+
+  // The send queue keeps only the newest frame, older ones are not waited for
+  private addPendingFrame(data: string, thumbnail: Uint8Array) {
+    this.pendingFrames.set(data, thumbnail);
+    if (this.pendingFrames.size > MAX_PENDING_FRAMES) {
+      this.pendingFrames.delete(this.pendingFrames.keys().next().value!);
+    }
+  }
+
+  /**
+   * Switches the microphone or its processing, also while recording.
+   * Processing changes apply to the running track, a different device is
+   * opened and takes over from the current one.
+   * @throws MediaPermissionError when the new device is denied or missing
+   */
+  async setMicrophoneOptions(options: Partial<MicrophoneOptions>) {
+    const previous = this.microphoneOptions;
+    this.microphoneOptions = { ...previous, ...options };
+    if (this.starting) await this.starting.catch(() => {});
+    const track = this.microphoneStream?.getAudioTracks()[0];
+    if (!track || !this.audioContext || !this.source) return;
+
+    if (this.microphoneOptions.deviceId === previous.deviceId) {
+      await track.applyConstraints(processingConstraints(this.microphoneOptions));
+      return;
+    }
+    const stream = await this.openMicrophone();
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.sourceGains.microphone ?? this.source);
+    this.microphoneSource?.disconnect();
+    this.microphoneStream?.getTracks().forEach(track => track.stop());
+    this.microphoneStream = stream;
+    this.microphoneSource = source;
+  }
+
+  /**
+   * Sets how loud a source is in the mix sent to the session.
+   * @param gain - Linear gain, 1 leaves the source as captured
+   */
+  setSourceGain(source: InputSource, gain: number) {
+    this.gains[source] = gain;
+    const node = this.sourceGains[source];
+    node?.gain.setTargetAtTime(gain, node.context.currentTime, 0.02);
+  }
+
+  /**
+   * Updates the speech detection thresholds, also while recording.
+   */
+  setVadOptions(options: Partial<VadOptions>) {
+    this.vadOptions = { ...this.vadOptions, ...options };
+    this.vadWorklet?.port.postMessage(this.vadOptions);
+  }
+
   private blobToBase64(blob: Blob): Promise<string> {
       return new Promise((resolve, reject) => {
           const reader = new FileReader();
@@ -182,13 +561,60 @@ export class AudioRecorder {
       });
   }
 
+  private async openMicrophone() {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: microphoneConstraints(this.microphoneOptions),
+      });
+    } catch (e: any) {
+      console.warn('Microphone access denied or unavailable.', e);
+      throw new MediaPermissionError(
+        e?.name === 'NotAllowedError'
+          ? 'Microphone access was denied.'
+          : e?.name === 'NotFoundError' || e?.name === 'OverconstrainedError'
+          ? 'The selected microphone is not available.'
+          : `Microphone capture failed: ${e?.message || e}`,
+        { cause: e }
+      );
+    }
+  }
+
+  private async startAudioGraph() {
+    try {
+      await this.initializeAudioGraph();
+    } catch (e: any) {
+      this.microphoneStream?.getTracks().forEach(track => track.stop());
+      throw new AudioContextError(
+        `Could not start audio processing: ${e?.message || e}`,
+        { cause: e }
+      );
+    }
+  }
+
   private async initializeAudioGraph() {
-    if (!this.stream) return;
+    if (!this.stream && !this.microphoneStream) return;
+    const streams = [this.stream, this.microphoneStream].filter(
+      (stream): stream is MediaStream =>
+        Boolean(stream && stream.getAudioTracks().length > 0)
+    );
 
-    this.audioContext = await audioContext({ sampleRate: this.sampleRate });
+    const context = await audioContext();
+    this.audioContext = context;
     // Check if audio track exists before creating source
-    if (this.stream.getAudioTracks().length > 0) {
-        this.source = this.audioContext.createMediaStreamSource(this.stream);
+    if (streams.length > 0) {
+        // Tab and microphone audio are mixed into one input
+        const input = context.createGain();
+        streams.forEach(stream => {
+          const kind: InputSource =
+            stream === this.microphoneStream ? 'microphone' : 'tab';
+          const source = context.createMediaStreamSource(stream);
+          const gain = context.createGain();
+          gain.gain.value = this.gains[kind];
+          source.connect(gain).connect(input);
+          this.sourceGains[kind] = gain;
+          if (kind === 'microphone') this.microphoneSource = source;
+        });
+        this.source = input;
 
         const workletName = 'audio-recorder-worklet';
         const src = createWorketFromSrc(workletName, AudioRecordingWorklet);
@@ -196,7 +622,8 @@ export class AudioRecorder {
         await this.audioContext.audioWorklet.addModule(src);
         this.recordingWorklet = new AudioWorkletNode(
         this.audioContext,
-        workletName
+        workletName,
+        { processorOptions: { sampleRate: this.sampleRate } }
         );
 
         this.recordingWorklet.port.onmessage = async (ev: MessageEvent) => {
@@ -218,6 +645,42 @@ export class AudioRecorder {
         };
 
         this.source.connect(this.vuWorklet);
+
+        // Each source is metered on its own, for balancing the mix
+        (Object.keys(this.sourceGains) as InputSource[]).forEach(kind => {
+          const meter = new AudioWorkletNode(context, vuWorkletName);
+          meter.port.onmessage = (ev: MessageEvent) => {
+            this.emitter.emit('sourcevolume', kind, ev.data.volume);
+          };
+          this.sourceGains[kind]!.connect(meter);
+          this.sourceMeters.push(meter);
+        });
+
+        const vadWorkletName = 'vad';
+        await this.audioContext.audioWorklet.addModule(
+        createWorketFromSrc(vadWorkletName, VadWorklet)
+        );
+        this.vadWorklet = new AudioWorkletNode(this.audioContext, vadWorkletName);
+        this.vadWorklet.port.postMessage(this.vadOptions);
+        this.vadWorklet.port.onmessage = (ev: MessageEvent) => {
+        if (ev.data.event === 'speech') {
+            this.speaking = ev.data.speaking;
+            this.emitter.emit('speech', this.speaking);
+        }
+        };
+
+        this.source.connect(this.vadWorklet);
+
+        const spectrumWorkletName = 'spectrum';
+        await this.audioContext.audioWorklet.addModule(
+        createWorketFromSrc(spectrumWorkletName, SpectrumWorklet)
+        );
+        this.spectrumWorklet = new AudioWorkletNode(this.audioContext, spectrumWorkletName);
+        this.spectrumWorklet.port.onmessage = (ev: MessageEvent) => {
+        this.emitter.emit('spectrum', ev.data.bands);
+        };
+
+        this.source.connect(this.spectrumWorklet);
     }
     
     this.recording = true;
@@ -226,14 +689,28 @@ export class AudioRecorder {
   stop() {
     const handleStop = () => {
       this.source?.disconnect();
+      this.microphoneSource?.disconnect();
+      Object.values(this.sourceGains).forEach(gain => gain.disconnect());
+      this.sourceMeters.forEach(meter => meter.port.close());
+      this.sourceGains = {};
+      this.sourceMeters = [];
       this.stream?.getTracks().forEach(track => track.stop());
+      this.microphoneStream?.getTracks().forEach(track => track.stop());
       this.stream = undefined;
+      this.microphoneStream = undefined;
+      this.microphoneSource = undefined;
       this.recordingWorklet = undefined;
       this.vuWorklet = undefined;
+      this.vadWorklet = undefined;
+      this.spectrumWorklet = undefined;
       this.videoTrack = undefined;
+      if (this.speaking) {
+        this.speaking = false;
+        this.emitter.emit('speech', false);
+      }
     };
     if (this.starting) {
-      this.starting.then(handleStop);
+      this.starting.then(handleStop, handleStop);
       return;
     }
     handleStop();
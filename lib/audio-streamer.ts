@@ -22,46 +22,159 @@ import {
   createWorketFromSrc,
   registeredWorklets,
 } from './audioworklet-registry';
+import PcmPlayerWorklet from './worklets/pcm-player';
+import { DEFAULT_OUTPUT_DEVICE, OutputRouting } from './output-devices';
+import { PadEngine, PadOptions } from './pad-engine';
+import {
+  VoiceLoudness,
+  VoiceProcessingOptions,
+  VoiceProcessor,
+} from './voice-processing';
+
+const PLAYER_WORKLET_NAME = 'pcm-player';
+
+export interface CatchUpOptions {
+  // Buffered audio beyond which playback speeds up to catch up
+  maxLagMs: number;
+  // Playback speed while catching up, the pitch is kept
+  catchUpRate: number;
+}
+
+export const DEFAULT_CATCH_UP_OPTIONS: CatchUpOptions = {
+  maxLagMs: 2000,
+  catchUpRate: 1.25,
+};
+
+/**
+ * How far playback is behind the audio received so far.
+ */
+export interface PlaybackLag {
+  lagMs: number;
+  // Current playback speed, above 1 while catching up
+  rate: number;
+  // Audio buffered before playback starts, adapted to how bursty input is
+  jitterMs: number;
+}
+
+// The player module is added once per context and shared by its streamers
+const playerModules: WeakMap<BaseAudioContext, Promise<void>> = new WeakMap();
+
+function loadPlayerModule(context: AudioContext) {
+  let loaded = playerModules.get(context);
+  if (!loaded) {
+    loaded = context.audioWorklet.addModule(
+      createWorketFromSrc(PLAYER_WORKLET_NAME, PcmPlayerWorklet)
+    );
+    playerModules.set(context, loaded);
+  }
+  return loaded;
+}
 
 export class AudioStreamer {
   private sampleRate: number = 24000;
-  private bufferSize: number = 7680;
-  // A queue of audio buffers to be played. Each buffer is a Float32Array.
-  private audioQueue: Float32Array[] = [];
-  private isPlaying: boolean = false;
-  // Indicates if the stream has finished playing, e.g., interrupted.
-  private isStreamComplete: boolean = false;
-  private checkInterval: number | null = null;
-  private scheduledTime: number = 0;
-  private initialBufferTime: number = 0.1; //0.1 // 100ms initial buffer
-  
-  // Web Audio API nodes. source => gain => destination
+  private initialBufferTime: number = 0.1; // 100ms initial buffer
+  // Fade applied when playback is interrupted
+  private flushFadeTime: number = 0.03;
+
+  // Web Audio API nodes. player => voiceBus => processor => voiceGain => gain
+  // => destination when mixed, see setRouting() for the split routings
   public gainNode: GainNode;
-  public source: AudioBufferSourceNode;
-  
-  // Track active sources to stop them individually without destroying the graph
-  private activeSources: Set<AudioBufferSourceNode> = new Set();
-  
-  private endOfQueueAudioSource: AudioBufferSourceNode | null = null;
+  // Level of the model voice alone, the ambient pad bypasses it
+  public voiceGain: GainNode;
+  // Bus for model voice, swapped out when cross-fading between sessions
+  private voiceBus: GainNode;
+  // EQ, loudness normalization and compression of the model voice
+  private processor: VoiceProcessor;
+  // Ring buffer playback node feeding the current voice bus
+  private player: Promise<AudioWorkletNode>;
+  private catchUp: CatchUpOptions = DEFAULT_CATCH_UP_OPTIONS;
+
   private keepAliveOscillator: OscillatorNode | null = null;
 
-  // Ambient Pad Components
-  private padGain: GainNode | null = null;
-  private padOscillators: OscillatorNode[] = [];
-  private padFilter: BiquadFilterNode | null = null;
+  // Ambient Pad Components. pad => padBus => gain, the bus is ducked
+  public padBus: GainNode;
+  private pad: PadEngine;
+  // Pad output of its own when it plays on another device
+  private padMaster: GainNode;
+  private padStream: MediaStreamAudioDestinationNode | null = null;
+  private padElement: HTMLAudioElement | null = null;
+  // Voice left, pad right
+  private channelMerger: ChannelMergerNode;
+
+  // Whether model audio is currently coming out of the player
+  public playing = false;
 
   public onComplete = () => {};
+  // Called when audio starts playing after silence, with the wall clock
+  // (performance.now() base) time playback begins at
+  public onPlaybackStart = (at: number) => {};
+  public onLag = (lag: PlaybackLag) => {};
+  public onLoudness = (loudness: VoiceLoudness) => {};
 
   constructor(public context: AudioContext) {
     this.gainNode = this.context.createGain();
-    this.source = this.context.createBufferSource();
     this.gainNode.connect(this.context.destination);
+    this.voiceGain = this.context.createGain();
+    this.voiceGain.connect(this.gainNode);
+    this.processor = new VoiceProcessor(this.context, loudness =>
+      this.onLoudness(loudness)
+    );
+    this.processor.output.connect(this.voiceGain);
+    this.voiceBus = this.context.createGain();
+    this.voiceBus.connect(this.processor.input);
+    this.player = this.createPlayer(this.voiceBus);
+    this.padBus = this.context.createGain();
+    this.padBus.connect(this.gainNode);
+    this.pad = new PadEngine(this.context, this.padBus, this.voiceGain);
+    this.padMaster = this.context.createGain();
+    this.channelMerger = this.context.createChannelMerger(2);
     this.addPCM16 = this.addPCM16.bind(this);
     
     // Start Keep-Alive to prevent background suspension
     this.startKeepAlive();
   }
 
+  private async createPlayer(bus: GainNode) {
+    await loadPlayerModule(this.context);
+    const node = new AudioWorkletNode(this.context, PLAYER_WORKLET_NAME, {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: {
+        sampleRate: this.sampleRate,
+        prebufferMs: this.initialBufferTime * 1000,
+        ...this.catchUp,
+      },
+    });
+    node.port.onmessage = (ev: MessageEvent) => {
+      // Only the player of the current bus reports playback state
+      if (bus !== this.voiceBus) return;
+      if (ev.data.event === 'started') {
+        this.playing = true;
+        this.onPlaybackStart(
+          performance.now() + (ev.data.time - this.context.currentTime) * 1000
+        );
+      } else if (ev.data.event === 'drained') {
+        this.playing = false;
+        this.onComplete();
+      } else if (ev.data.event === 'lag') {
+        const { lagMs, rate, jitterMs } = ev.data;
+        this.onLag({ lagMs, rate, jitterMs });
+      }
+    };
+    node.connect(bus);
+    return node;
+  }
+
+  private post(
+    message: { type: string; [key: string]: unknown },
+    transfer: Transferable[] = []
+  ) {
+    this.player
+      .then(node => node.port.postMessage(message, transfer))
+      .catch(e => console.error('Audio playback is unavailable', e));
+  }
+
   private startKeepAlive() {
     // Plays a silent/inaudible sound to keep the audio context active in background
     try {
@@ -84,66 +197,99 @@ export class AudioStreamer {
     }
   }
 
-  // --- Ambient Pad Logic ---
-  setPadVolume(volume: number) {
-    if (this.padGain) {
-      // Ramp to new volume for smooth transition
-      this.padGain.gain.linearRampToValueAtTime(volume, this.context.currentTime + 0.5);
+  /**
+   * Silences or restores everything this streamer plays.
+   */
+  setMuted(muted: boolean) {
+    this.gainNode.gain.value = muted ? 0 : 1;
+    this.padMaster.gain.value = muted ? 0 : 1;
+  }
+
+  /**
+   * Routes voice and pad to the context's device together, to its left and
+   * right channel, or the pad to a device of its own.
+   * @param padDeviceId - Device the pad plays on with 'split-devices'
+   * @returns Whether the pad device could be used
+   */
+  async setRouting(routing: OutputRouting, padDeviceId: string = '') {
+    const links: Array<[AudioNode, AudioNode]> = [
+      [this.voiceGain, this.gainNode],
+      [this.padBus, this.gainNode],
+      [this.voiceGain, this.channelMerger],
+      [this.padBus, this.channelMerger],
+      [this.channelMerger, this.gainNode],
+      [this.padBus, this.padMaster],
+    ];
+    links.forEach(([from, to]) => {
+      try {
+        from.disconnect(to);
+      } catch (e) {
+        // Not connected in the current routing
+      }
+    });
+
+    if (routing === 'split-channels') {
+      this.voiceGain.connect(this.channelMerger, 0, 0);
+      this.padBus.connect(this.channelMerger, 0, 1);
+      this.channelMerger.connect(this.gainNode);
+    } else {
+      this.voiceGain.connect(this.gainNode);
+    }
+    if (routing === 'mixed') {
+      this.padBus.connect(this.gainNode);
+    }
+
+    if (routing !== 'split-devices') {
+      this.padElement?.pause();
+      return true;
+    }
+
+    this.padBus.connect(this.padMaster);
+    if (!this.padStream) {
+      this.padStream = this.context.createMediaStreamDestination();
+      this.padMaster.connect(this.padStream);
+      this.padElement = new Audio();
+      this.padElement.srcObject = this.padStream.stream;
+    }
+    let ok = true;
+    try {
+      await this.padElement!.setSinkId(padDeviceId);
+    } catch (e) {
+      console.warn(`Pad device ${padDeviceId} is unavailable, using the default`, e);
+      await this.padElement!.setSinkId(DEFAULT_OUTPUT_DEVICE).catch(() => {});
+      ok = false;
     }
+    await this.padElement!.play().catch(e =>
+      console.warn('Could not play the pad output', e)
+    );
+    return ok;
   }
 
-  startPad(volume: number) {
-    if (this.padGain) return; // Already running
+  // --- Ambient Pad Logic ---
+  /**
+   * Scales the pad level, e.g. to duck it while the interpreter speaks.
+   */
+  setPadDuck(factor: number) {
+    this.padBus.gain.setTargetAtTime(factor, this.context.currentTime, 0.05);
+  }
 
-    const now = this.context.currentTime;
-    
-    // Master gain for the pad
-    this.padGain = this.context.createGain();
-    this.padGain.gain.value = 0; // Start silent for fade-in
-    
-    // Lowpass filter to make it "warm" and non-intrusive
-    this.padFilter = this.context.createBiquadFilter();
-    this.padFilter.type = 'lowpass';
-    this.padFilter.frequency.value = 400; // Muffled, warm sound
-    this.padFilter.Q.value = 1;
-
-    // Chain: Oscs -> Filter -> PadGain -> MainGain (so muting works)
-    this.padFilter.connect(this.padGain);
-    this.padGain.connect(this.gainNode);
-
-    // D Major / D drone (D3, A3, D4) - Neutral, hopeful, authoritative
-    const freqs = [146.83, 220.00, 293.66]; 
-    
-    freqs.forEach(f => {
-      const osc = this.context.createOscillator();
-      osc.type = 'triangle'; // Triangle is softer than saw, richer than sine
-      osc.frequency.value = f;
-      // Detune slightly for "chorus" effect
-      osc.detune.value = (Math.random() * 10) - 5; 
-      osc.connect(this.padFilter!);
-      osc.start();
-      this.padOscillators.push(osc);
-    });
+  setPadVolume(volume: number) {
+    this.pad.setVolume(volume);
+  }
 
-    // Fade in over 2 seconds
-    this.padGain.gain.linearRampToValueAtTime(volume, now + 2);
+  startPad(volume: number) {
+    this.pad.start(volume);
   }
 
   stopPad() {
-    if (!this.padGain) return;
-    const now = this.context.currentTime;
-    
-    // Fade out
-    this.padGain.gain.linearRampToValueAtTime(0, now + 2);
-    
-    setTimeout(() => {
-      this.padOscillators.forEach(o => o.stop());
-      this.padOscillators = [];
-      this.padGain?.disconnect();
-      this.padFilter?.disconnect();
-      this.padGain = null;
-      this.padFilter = null;
-    }, 2000);
+    this.pad.stop();
+  }
+
+  /**
+   * Changes the pad's sound, also while it plays.
+   */
+  setPadOptions(options: Partial<PadOptions>) {
+    this.pad.setOptions(options);
   }
   // -------------------------
 
@@ -157,6 +303,8 @@ export class AudioStreamer {
       // the worklet already exists on this context
       // add the new handler to it
       workletsRecord[workletName].handlers.push(handler);
+      const node = workletsRecord[workletName].node;
+      if (node) this.voiceGain.connect(node);
       return Promise.resolve(this);
     }
 
@@ -173,181 +321,134 @@ export class AudioStreamer {
     const worklet = new AudioWorkletNode(this.context, workletName);
 
     //add the node into the map
-    workletsRecord[workletName].node = worklet;
+    const graph = workletsRecord[workletName];
+    graph.node = worklet;
+    worklet.port.onmessage = function (ev: MessageEvent) {
+      graph.handlers.forEach(handler => {
+        handler.call(worklet.port, ev);
+      });
+    };
+    this.voiceGain.connect(worklet);
+    worklet.connect(this.context.destination);
 
     return this;
   }
 
   private _processPCM16Chunk(chunk: Uint8Array): Float32Array {
     const float32Array = new Float32Array(chunk.length / 2);
-    const dataView = new DataView(chunk.buffer);
+    const dataView = new DataView(
+      chunk.buffer,
+      chunk.byteOffset,
+      chunk.byteLength
+    );
 
-    for (let i = 0; i < chunk.length / 2; i++) {
-      try {
-        const int16 = dataView.getInt16(i * 2, true);
-        float32Array[i] = int16 / 32768;
-      } catch (e) {
-        console.error(e);
-      }
+    for (let i = 0; i < float32Array.length; i++) {
+      const int16 = dataView.getInt16(i * 2, true);
+      float32Array[i] = int16 / 32768;
     }
     return float32Array;
   }
 
   addPCM16(chunk: Uint8Array) {
-    this.isStreamComplete = false;
-    let processingBuffer = this._processPCM16Chunk(chunk);
-    while (processingBuffer.length >= this.bufferSize) {
-      const buffer = processingBuffer.slice(0, this.bufferSize);
-      this.audioQueue.push(buffer);
-      processingBuffer = processingBuffer.slice(this.bufferSize);
-    }
-    if (processingBuffer.length > 0) {
-      this.audioQueue.push(processingBuffer);
-    }
-    if (!this.isPlaying) {
-      this.isPlaying = true;
-      this.scheduledTime = this.context.currentTime + this.initialBufferTime;
-      this.scheduleNextBuffer();
-    }
+    const samples = this._processPCM16Chunk(chunk);
+    this.post({ type: 'pcm', samples }, [samples.buffer]);
   }
 
-  private createAudioBuffer(audioData: Float32Array): AudioBuffer {
-    const audioBuffer = this.context.createBuffer(
-      1,
-      audioData.length,
-      this.sampleRate
-    );
-    audioBuffer.getChannelData(0).set(audioData);
-    return audioBuffer;
+  setCatchUpOptions(options: Partial<CatchUpOptions>) {
+    this.catchUp = { ...this.catchUp, ...options };
+    this.post({ type: 'config', ...this.catchUp });
   }
 
-  private scheduleNextBuffer() {
-    const SCHEDULE_AHEAD_TIME = 0.2;
-
-    while (
-      this.audioQueue.length > 0 &&
-      this.scheduledTime < this.context.currentTime + SCHEDULE_AHEAD_TIME
-    ) {
-      const audioData = this.audioQueue.shift()!;
-      const audioBuffer = this.createAudioBuffer(audioData);
-      const source = this.context.createBufferSource();
-
-      // Track this source
-      this.activeSources.add(source);
-
-      if (this.audioQueue.length === 0) {
-        if (this.endOfQueueAudioSource) {
-          this.endOfQueueAudioSource.onended = null;
-        }
-        this.endOfQueueAudioSource = source;
-        source.onended = () => {
-          this.activeSources.delete(source);
-          if (
-            !this.audioQueue.length &&
-            this.endOfQueueAudioSource === source
-          ) {
-            this.endOfQueueAudioSource = null;
-            this.onComplete();
-          }
-        };
-      } else {
-        // Standard cleanup for non-end chunks
-        source.onended = () => {
-          this.activeSources.delete(source);
-        };
-      }
-
-      source.buffer = audioBuffer;
-      source.connect(this.gainNode);
-
-      const worklets = registeredWorklets.get(this.context);
-
-      if (worklets) {
-        Object.entries(worklets).forEach(([workletName, graph]) => {
-          const { node, handlers } = graph;
-          if (node) {
-            source.connect(node);
-            node.port.onmessage = function (ev: MessageEvent) {
-              handlers.forEach(handler => {
-                handler.call(node.port, ev);
-              });
-            };
-            node.connect(this.context.destination);
-          }
-        });
-      }
-      
-      const startTime = Math.max(this.scheduledTime, this.context.currentTime);
-      source.start(startTime);
-      this.scheduledTime = startTime + audioBuffer.duration;
-    }
-
-    if (this.audioQueue.length === 0) {
-      if (this.isStreamComplete) {
-        this.isPlaying = false;
-        if (this.checkInterval) {
-          clearInterval(this.checkInterval);
-          this.checkInterval = null;
-        }
-      } else {
-        if (!this.checkInterval) {
-          this.checkInterval = window.setInterval(() => {
-            if (this.audioQueue.length > 0) {
-              this.scheduleNextBuffer();
-            }
-          }, 100) as unknown as number;
-        }
-      }
-    } else {
-      const nextCheckTime =
-        (this.scheduledTime - this.context.currentTime) * 1000;
-      setTimeout(
-        () => this.scheduleNextBuffer(),
-        Math.max(0, nextCheckTime - 50)
-      );
-    }
+  setVoiceProcessing(options: Partial<VoiceProcessingOptions>) {
+    this.processor.setOptions(options);
   }
 
+  /**
+   * Drops everything buffered, fading out what is playing. Audio added
+   * afterwards plays normally.
+   */
   stop() {
-    this.isPlaying = false;
-    this.isStreamComplete = true;
-    this.audioQueue = [];
-    
-    // Stop all currently playing sources smoothly
-    this.activeSources.forEach(source => {
-      try {
-        source.stop();
-      } catch (e) {
-        // Ignore errors if source is already stopped
-      }
-    });
-    this.activeSources.clear();
+    this.post({ type: 'flush', fadeMs: this.flushFadeTime * 1000 });
 
-    // Reset scheduling time
-    this.scheduledTime = this.context.currentTime;
-    
     // NOTE: We do NOT call stopPad() here anymore. 
     // The background ambience should persist during speech interruptions.
+  }
 
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
-      this.checkInterval = null;
+  /**
+   * Fades out everything already buffered while audio added afterwards fades
+   * in on a fresh bus, so handing playback over to a new session has no gap.
+   * @param duration - Cross-fade length in seconds
+   * @returns Plays audio on the fading bus, for what the previous session
+   * still sends while it fades out
+   */
+  crossfade(duration: number = 1.5) {
+    const now = this.context.currentTime;
+
+    const outgoingBus = this.voiceBus;
+    const outgoingPlayer = this.player;
+    outgoingBus.gain.setValueAtTime(outgoingBus.gain.value, now);
+    outgoingBus.gain.linearRampToValueAtTime(0, now + duration);
+    setTimeout(() => {
+      outgoingPlayer
+        .then(node => {
+          node.port.postMessage({ type: 'flush' });
+          node.disconnect();
+        })
+        .catch(() => {});
+      outgoingBus.disconnect();
+    }, duration * 1000 + 50);
+
+    this.voiceBus = this.context.createGain();
+    this.voiceBus.gain.setValueAtTime(0, now);
+    this.voiceBus.gain.linearRampToValueAtTime(1, now + duration);
+    this.voiceBus.connect(this.processor.input);
+    this.player = this.createPlayer(this.voiceBus);
+
+    // The outgoing player no longer reports, so its playback ends here
+    if (this.playing) {
+      this.playing = false;
+      this.onComplete();
     }
-    
-    // We do NOT disconnect the gainNode anymore to prevent breaking the graph
+
+    return (chunk: Uint8Array) => {
+      const samples = this._processPCM16Chunk(chunk);
+      outgoingPlayer
+        .then(node =>
+          node.port.postMessage({ type: 'pcm', samples }, [samples.buffer])
+        )
+        .catch(() => {});
+    };
   }
 
   async resume() {
     if (this.context.state === 'suspended') {
       await this.context.resume();
     }
-    this.isStreamComplete = false;
-    this.scheduledTime = this.context.currentTime + this.initialBufferTime;
     this.gainNode.gain.setValueAtTime(1, this.context.currentTime);
+    this.padMaster.gain.setValueAtTime(1, this.context.currentTime);
   }
 
   complete() {
-    this.isStreamComplete = true;
     this.onComplete();
   }
+
+  /**
+   * Stops playback and releases the nodes of a streamer that is no longer used.
+   * The shared audio context itself stays open.
+   */
+  dispose() {
+    this.post({ type: 'flush' });
+    this.player.then(node => node.disconnect()).catch(() => {});
+    this.keepAliveOscillator?.stop();
+    this.keepAliveOscillator = null;
+    this.pad.dispose();
+    this.processor.dispose();
+    this.gainNode.disconnect();
+    this.padMaster.disconnect();
+    if (this.padElement) {
+      this.padElement.pause();
+      this.padElement.srcObject = null;
+      this.padElement = null;
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Credential used to open a Live session.
+ */
+export interface LiveAuthToken {
+  // Ephemeral token name, or a plain API key
+  token: string;
+  // Ephemeral tokens only work against the v1alpha API
+  ephemeral: boolean;
+  // Epoch ms after which the token can no longer open new sessions
+  expiresAt: number;
+}
+
+/**
+ * Supplies credentials for every Live session the client opens, including
+ * reconnects and rollovers.
+ */
+export interface AuthTokenProvider {
+  getToken(): Promise<LiveAuthToken>;
+  // Asks for different credentials, e.g. after the key was rejected
+  switchKey?(): Promise<void>;
+}
+
+/**
+ * Response of the token broker endpoint.
+ */
+export interface TokenBrokerResponse {
+  token: string;
+  // ISO time after which the token cannot open new sessions
+  newSessionExpireTime: string;
+}
+
+/**
+ * Provider for a plain API key, which does not expire.
+ */
+export class ApiKeyProvider implements AuthTokenProvider {
+  constructor(private apiKey: string) {}
+
+  async getToken(): Promise<LiveAuthToken> {
+    return { token: this.apiKey, ephemeral: false, expiresAt: Infinity };
+  }
+}
+
+// Waits before retrying a failed broker request, one entry per retry
+const BROKER_RETRY_DELAYS_MS = [500, 2000];
+
+/**
+ * A failed broker request. `absent` when there is no broker at the URL,
+ * which retrying will not change.
+ */
+class TokenBrokerError extends Error {
+  constructor(message: string, public readonly absent: boolean) {
+    super(message);
+    this.name = 'TokenBrokerError';
+  }
+}
+
+/**
+ * Fetches short-lived tokens from a broker endpoint so the API key never
+ * reaches the browser. A token is fetched when a session opens and the
+ * current one is within `refreshLeadMs` of expiring, nothing is fetched
+ * while no session opens.
+ *
+ * When the broker cannot be reached after retrying, `fallback` is asked for
+ * credentials instead (e.g. a key typed in by the user). The broker is
+ * tried again for the next session, unless there is no broker at the URL.
+ */
+export class BrokerTokenProvider implements AuthTokenProvider {
+  private current: LiveAuthToken | null = null;
+  private pending: Promise<LiveAuthToken> | null = null;
+  private fallbackProvider: AuthTokenProvider | null = null;
+  // Set once the broker is absent or the user switched to a key
+  private useFallback = false;
+
+  constructor(
+    private url: string,
+    private fallback?: () => Promise<AuthTokenProvider>,
+    private refreshLeadMs = 15_000
+  ) {}
+
+  async getToken(): Promise<LiveAuthToken> {
+    if (this.useFallback) return this.fallbackToken();
+    const current = this.current;
+    if (current && current.expiresAt - this.refreshLeadMs > Date.now()) {
+      return current;
+    }
+    try {
+      return await this.refresh();
+    } catch (e) {
+      if (!this.fallback) throw e;
+      if (e instanceof TokenBrokerError && e.absent) {
+        console.warn('No token broker, asking for an API key:', e);
+        this.useFallback = true;
+      } else {
+        console.warn('Token broker unavailable, using an API key:', e);
+      }
+      return this.fallbackToken();
+    }
+  }
+
+  /**
+   * Stops using broker tokens and asks `fallback` for credentials instead.
+   */
+  async switchKey() {
+    if (!this.fallback) return;
+    this.fallbackProvider = await this.fallback();
+    this.useFallback = true;
+    this.current = null;
+  }
+
+  // The key is asked for once, later fallbacks reuse it
+  private async fallbackToken() {
+    if (!this.fallbackProvider) this.fallbackProvider = await this.fallback!();
+    return this.fallbackProvider.getToken();
+  }
+
+  private refresh() {
+    // Concurrent sessions share one broker request
+    if (!this.pending) {
+      this.pending = this.fetchTokenWithRetries().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async fetchTokenWithRetries() {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchToken();
+      } catch (e) {
+        const absent = e instanceof TokenBrokerError && e.absent;
+        if (absent || attempt >= BROKER_RETRY_DELAYS_MS.length) throw e;
+        await new Promise(resolve =>
+          setTimeout(resolve, BROKER_RETRY_DELAYS_MS[attempt])
+        );
+      }
+    }
+  }
+
+  private async fetchToken(): Promise<LiveAuthToken> {
+    if (!this.url) throw new TokenBrokerError('No token broker URL set', true);
+    const response = await fetch(this.url, { method: 'POST' });
+    if (!response.ok) {
+      throw new TokenBrokerError(
+        `Token broker responded ${response.status} ${response.statusText}`,
+        response.status === 404 || response.status === 405
+      );
+    }
+    let body: TokenBrokerResponse;
+    try {
+      body = await response.json();
+    } catch (e) {
+      // Something else answers at the URL, e.g. the app's own index page
+      throw new TokenBrokerError('Token broker response is not JSON', true);
+    }
+    const token = {
+      token: body.token,
+      ephemeral: true,
+      expiresAt: Date.parse(body.newSessionExpireTime),
+    };
+    this.current = token;
+    return token;
+  }
+}
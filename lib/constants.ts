@@ -26,6 +26,36 @@ export const DEFAULT_LIVE_API_MODEL =
 
 export const DEFAULT_VOICE = 'Orus';
 
+/**
+ * Path the local mock Live server is mounted on by the dev server
+ */
+export const MOCK_LIVE_PATH = '/mock-live';
+
+/**
+ * Path the local token broker stand-in is mounted on by the dev server
+ */
+export const TOKEN_BROKER_PATH = '/api/live-token';
+
+/**
+ * Hard limit of a Live session that streams audio and video frames
+ */
+export const AUDIO_VIDEO_SESSION_LIMIT_MS = 2 * 60 * 1000;
+
+/**
+ * How long before the session limit a replacement session is opened
+ */
+export const SESSION_ROLLOVER_LEAD_MS = 20 * 1000;
+
+/**
+ * Length of the voice cross-fade when handing over to the new session, in seconds
+ */
+export const SESSION_ROLLOVER_CROSSFADE_S = 1.5;
+
+/**
+ * Characters of recent interpretation carried over into the new session
+ */
+export const SESSION_CARRY_OVER_CHARS = 1200;
+
 export const AVAILABLE_VOICES = ['Zephyr', 'Puck', 'Charon', 'Luna', 'Nova', 'Kore', 'Fenrir',	'Leda', 'Orus','Aoede','Callirrhoe','Autonoe','Enceladus','Iapetus','Umbriel','Algieba','Despina','Erinome','Algenib','Rasalgethi','Laomedeia','Achernar','Alnilam','Schedar','Gacrux','Pulcherrima','Achird',	'Zubenelgenubi','Vindemiatrix','Sadachbia','Sadaltager','Sulafat'];
 
 export const SUPPORTED_LANGUAGES = [
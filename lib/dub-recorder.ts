@@ -0,0 +1,374 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createWorketFromSrc } from './audioworklet-registry';
+import { PcmStorage, PcmStore } from './pcm-store';
+import PcmCaptureWorklet from './worklets/pcm-capture';
+
+const CAPTURE_WORKLET_NAME = 'pcm-capture';
+
+// The capture module is added once per context
+const captureModules: WeakMap<BaseAudioContext, Promise<void>> = new WeakMap();
+
+function loadCaptureModule(context: BaseAudioContext) {
+  let loaded = captureModules.get(context);
+  if (!loaded) {
+    loaded = context.audioWorklet.addModule(
+      createWorketFromSrc(CAPTURE_WORKLET_NAME, PcmCaptureWorklet)
+    );
+    captureModules.set(context, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * What a tap records. `source` is the captured media, `interpreter` the
+ * voice of the heard language and `pad` the ambient pad under it.
+ */
+export type DubTrack = 'source' | 'interpreter' | 'pad';
+
+// One tap of a track, a track is tapped again when its node is replaced
+interface TrackRecording {
+  track: DubTrack;
+  tapped: AudioNode;
+  node: AudioWorkletNode;
+  sampleRate: number;
+  // performance.now() minus context time, to put chunks on one timeline
+  clockOffsetMs: number;
+  store: PcmStore;
+  // performance.now() time of the first recorded sample
+  firstSampleAt: number | null;
+  flushed: Promise<void>;
+}
+
+function contextClockOffsetMs(context: BaseAudioContext) {
+  if (context instanceof AudioContext) {
+    const { contextTime, performanceTime } = context.getOutputTimestamp();
+    if (contextTime !== undefined && performanceTime !== undefined) {
+      return performanceTime - contextTime * 1000;
+    }
+  }
+  return performance.now() - context.currentTime * 1000;
+}
+
+// Without the origin private file system each track is kept in memory, for
+// up to this long
+const MAX_MEMORY_MINUTES = 20;
+
+// Frames rendered at a time when the files are encoded
+const RENDER_BLOCK_FRAMES = 1 << 16;
+
+/**
+ * Records the dubbed session to WAV, either as one mix of interpreter, pad and
+ * source or as separate source, interpreter and pad stems. All files start
+ * at the moment recording started, so stems line up in an editor. Their
+ * broadcast wave TimeReference places them at their offset from the start
+ * of the session.
+ *
+ * Tracks are streamed to the origin private file system while recording,
+ * so long sessions are not held in memory.
+ */
+export class DubRecorder {
+  private readonly startedAt = performance.now();
+  private readonly startedAtDate = new Date();
+  private recordings: TrackRecording[] = [];
+  private storage = new PcmStorage('dub-recordings', 0);
+  private full = false;
+
+  /**
+   * @param stems - Export each track as its own file instead of a mix
+   * @param sessionStartedAt - Date.now() time the session started at
+   * @param onFull - Called once a track can not be recorded any longer, when
+   * kept in memory or out of storage
+   */
+  constructor(
+    public readonly stems: boolean,
+    private sessionStartedAt: number | null = null,
+    private onFull: () => void = () => {}
+  ) {}
+
+  /**
+   * Starts recording the output of `node` as `track`. Tapping a track again,
+   * e.g. after the capture restarted, continues it from the new node.
+   */
+  async tap(track: DubTrack, node: AudioNode) {
+    const current = this.recordings.filter(r => r.track === track);
+    if (current.some(r => r.tapped === node)) return;
+    const context = node.context;
+    await loadCaptureModule(context);
+    const store = await this.storage.create(
+      context.sampleRate * 60 * MAX_MEMORY_MINUTES
+    );
+    const worklet = new AudioWorkletNode(context, CAPTURE_WORKLET_NAME, {
+      numberOfOutputs: 0,
+    });
+    let resolveFlushed = () => {};
+    const recording: TrackRecording = {
+      track,
+      tapped: node,
+      node: worklet,
+      sampleRate: context.sampleRate,
+      clockOffsetMs: contextClockOffsetMs(context),
+      store,
+      firstSampleAt: null,
+      flushed: new Promise(resolve => (resolveFlushed = resolve)),
+    };
+    worklet.port.onmessage = (ev: MessageEvent) => {
+      if (ev.data.event === 'chunk') {
+        const chunk = new Int16Array(ev.data.int16arrayBuffer);
+        if (recording.firstSampleAt === null) {
+          recording.firstSampleAt =
+            ev.data.time * 1000 + recording.clockOffsetMs;
+        }
+        if (!store.append(chunk) && !this.full) {
+          this.full = true;
+          this.onFull();
+        }
+      } else if (ev.data.event === 'flushed') {
+        resolveFlushed();
+      }
+    };
+    current.forEach(previous => this.untap(previous));
+    node.connect(worklet);
+    this.recordings.push(recording);
+  }
+
+  private untap(recording: TrackRecording) {
+    try {
+      recording.tapped.disconnect(recording.node);
+    } catch (e) {
+      // Already disconnected
+    }
+    recording.node.port.postMessage({ type: 'flush' });
+  }
+
+  /**
+   * Stops all taps and encodes the recording.
+   */
+  async stop(): Promise<Array<{ name: string; blob: Blob }>> {
+    const recordings = this.recordings;
+    this.recordings = [];
+    recordings.forEach(recording => this.untap(recording));
+    await Promise.all(
+      recordings.map(recording =>
+        Promise.race([
+          recording.flushed,
+          new Promise(resolve => setTimeout(resolve, 500)),
+        ])
+      )
+    );
+    recordings.forEach(recording => recording.node.port.close());
+
+    const base = `dub-${this.startedAtDate.toISOString().replace(/[:.]/g, '-')}`;
+    const render = async (tracks: DubTrack[], name: string) => {
+      const parts = recordings.filter(r => tracks.includes(r.track));
+      if (!parts.length) return [];
+      const sampleRate = parts[0].sampleRate;
+      const pcm = await this.mix(parts, sampleRate);
+      const blob = await encodeWav(pcm, sampleRate, this.wavInfo(sampleRate));
+      return [{ name, blob }];
+    };
+
+    try {
+      if (this.stems) {
+        const stems: DubTrack[] = ['source', 'interpreter', 'pad'];
+        const files = [];
+        for (const track of stems) {
+          files.push(...(await render([track], `${base}-${track}.wav`)));
+        }
+        return files;
+      }
+      return await render(['interpreter', 'pad', 'source'], `${base}.wav`);
+    } finally {
+      await Promise.all(recordings.map(r => r.store.dispose()));
+    }
+  }
+
+  /**
+   * Stops recording and saves the files through the browser's download flow.
+   */
+  async download() {
+    const files = await this.stop();
+    files.forEach(({ name, blob }) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+    });
+  }
+
+  private wavInfo(sampleRate: number): WavInfo {
+    const date = this.startedAtDate;
+    if (this.sessionStartedAt === null) {
+      return { comment: 'Dubbed session', date, timeReference: 0 };
+    }
+    const offsetMs = Math.max(0, date.getTime() - this.sessionStartedAt);
+    return {
+      comment: `Dubbed session, starts ${formatOffset(offsetMs)} after session start`,
+      date,
+      timeReference: Math.round((offsetMs / 1000) * sampleRate),
+    };
+  }
+
+  /**
+   * Mixes recordings into one store at `sampleRate`, block by block.
+   */
+  private async mix(recordings: TrackRecording[], sampleRate: number) {
+    const tracks = recordings.map(r => new AlignedTrack(r, sampleRate, this.startedAt));
+    const length = Math.max(...tracks.map(t => t.length));
+    const out = await this.storage.create(Infinity);
+    for (let start = 0; start < length; start += RENDER_BLOCK_FRAMES) {
+      const count = Math.min(RENDER_BLOCK_FRAMES, length - start);
+      const blocks = await Promise.all(tracks.map(t => t.read(start, count)));
+      out.append(mixBlocks(blocks, count));
+    }
+    return out;
+  }
+}
+
+/**
+ * A recording resampled to `sampleRate` and shifted so that frame 0 is the
+ * moment recording started, read in blocks.
+ */
+class AlignedTrack {
+  readonly length: number;
+  private lead: number;
+  private resampledLength: number;
+  // Source frames per output frame
+  private step: number;
+
+  constructor(private recording: TrackRecording, sampleRate: number, startedAt: number) {
+    const { store, sampleRate: from } = recording;
+    const leadMs = (recording.firstSampleAt ?? startedAt) - startedAt;
+    this.lead = Math.round((leadMs / 1000) * sampleRate);
+    this.step = from / sampleRate;
+    this.resampledLength =
+      from === sampleRate ? store.frames : Math.floor(store.frames / this.step);
+    this.length = Math.max(0, this.lead + this.resampledLength);
+  }
+
+  /**
+   * Frames `start` to `start + count`, silent outside the recording.
+   * Linear resampling, only used when the two audio contexts differ in rate.
+   */
+  async read(start: number, count: number) {
+    const out = new Int16Array(count);
+    const first = Math.max(0, start - this.lead);
+    const last = Math.min(this.resampledLength, start + count - this.lead);
+    if (first >= last) return out;
+    const sourceStart = Math.floor(first * this.step);
+    const source = await this.recording.store.read(
+      sourceStart,
+      Math.floor((last - 1) * this.step) - sourceStart + 2
+    );
+    if (!source.length) return out;
+    for (let j = first; j < last; j++) {
+      const position = j * this.step - sourceStart;
+      const index = Math.floor(position);
+      // Fewer frames were stored than appended
+      if (index >= source.length) break;
+      const next = source[Math.min(index + 1, source.length - 1)];
+      out[j + this.lead - start] = Math.round(
+        source[index] + (next - source[index]) * (position - Math.floor(position))
+      );
+    }
+    return out;
+  }
+}
+
+function formatOffset(ms: number) {
+  const totalSeconds = ms / 1000;
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toFixed(3).padStart(6, '0');
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${seconds}`;
+}
+
+function mixBlocks(blocks: Int16Array[], count: number) {
+  if (blocks.length === 1) return blocks[0];
+  const mix = new Int16Array(count);
+  for (let i = 0; i < count; i++) {
+    let sum = 0;
+    for (const block of blocks) sum += block[i];
+    mix[i] = Math.max(-32768, Math.min(32767, sum));
+  }
+  return mix;
+}
+
+// Text of a WAV file besides the samples
+interface WavInfo {
+  comment: string;
+  date: Date;
+  // First sample since the start of the session, in samples
+  timeReference: number;
+}
+
+const BEXT_LENGTH = 602;
+
+/**
+ * 16-bit mono PCM WAV with the comment in a LIST/INFO chunk and the time
+ * reference in a broadcast wave bext chunk.
+ */
+async function encodeWav(pcm: PcmStore, sampleRate: number, info: WavInfo) {
+  const samples = await pcm.blob();
+  const text = new TextEncoder().encode(`${info.comment}\0`);
+  const textLength = text.length + (text.length % 2);
+  const listLength = 4 + 8 + textLength;
+  const bextOffset = 36;
+  const listOffset = bextOffset + 8 + BEXT_LENGTH;
+  const dataOffset = listOffset + 8 + listLength;
+  const header = new DataView(new ArrayBuffer(dataOffset + 8));
+  const writeString = (offset: number, value: string, length = value.length) => {
+    for (let i = 0; i < Math.min(value.length, length); i++) {
+      header.setUint8(offset + i, value.charCodeAt(i) & 0x7f);
+    }
+  };
+  const dataLength = pcm.frames * 2;
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, dataOffset + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const { date, timeReference } = info;
+  writeString(bextOffset, 'bext');
+  header.setUint32(bextOffset + 4, BEXT_LENGTH, true);
+  const bext = bextOffset + 8;
+  writeString(bext, info.comment, 256); // Description
+  writeString(
+    bext + 320,
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  );
+  writeString(
+    bext + 330,
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+  header.setUint32(bext + 338, timeReference % 2 ** 32, true);
+  header.setUint32(bext + 342, Math.floor(timeReference / 2 ** 32), true);
+  header.setUint16(bext + 346, 1, true); // version
+
+  writeString(listOffset, 'LIST');
+  header.setUint32(listOffset + 4, listLength, true);
+  writeString(listOffset + 8, 'INFO');
+  writeString(listOffset + 12, 'ICMT');
+  header.setUint32(listOffset + 16, text.length, true);
+  new Uint8Array(header.buffer).set(text, listOffset + 20);
+
+  writeString(dataOffset, 'data');
+  header.setUint32(dataOffset + 4, dataLength, true);
+
+  return new Blob([header.buffer, samples], {
+    type: 'audio/wav',
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DuckingOptions {
+  enabled: boolean;
+  // Source level while the interpreter speaks, as a fraction of normal
+  level: number;
+  // How long the source stays ducked after the interpreter stopped
+  releaseMs: number;
+}
+
+export const DEFAULT_DUCKING_OPTIONS: DuckingOptions = {
+  enabled: true,
+  level: 0.3,
+  releaseMs: 800,
+};
+
+// Length of a ramp between ducked and normal level, and its step size
+const RAMP_MS = 300;
+const STEP_MS = 50;
+
+/**
+ * Lowers the source while the interpreter speaks and restores it once the
+ * interpreter has been quiet for the release time. Reports the factor the
+ * source level is to be multiplied with, stepping through ramps so that
+ * players without smooth volume changes do not jump.
+ */
+export class SourceDucker {
+  private factor = 1;
+  private active = false;
+  private releaseTimer: number | null = null;
+  private rampTimer: number | null = null;
+
+  constructor(
+    private onChange: (factor: number) => void,
+    private options: DuckingOptions = DEFAULT_DUCKING_OPTIONS
+  ) {}
+
+  setOptions(options: Partial<DuckingOptions>) {
+    this.options = { ...this.options, ...options };
+    if (this.active) this.rampTo(this.duckedFactor());
+  }
+
+  /**
+   * @param active - Whether the interpreter is audibly speaking
+   */
+  setActive(active: boolean) {
+    if (active === this.active) return;
+    this.active = active;
+    this.clearRelease();
+    if (active) {
+      this.rampTo(this.duckedFactor());
+    } else {
+      this.releaseTimer = window.setTimeout(() => {
+        this.releaseTimer = null;
+        this.rampTo(1);
+      }, this.options.releaseMs);
+    }
+  }
+
+  dispose() {
+    this.clearRelease();
+    this.clearRamp();
+  }
+
+  private duckedFactor() {
+    return this.options.enabled ? this.options.level : 1;
+  }
+
+  private rampTo(target: number) {
+    this.clearRamp();
+    const delta = (STEP_MS / RAMP_MS) * (target > this.factor ? 1 : -1);
+    const step = () => {
+      const next = this.factor + delta;
+      this.factor = delta > 0 ? Math.min(target, next) : Math.max(target, next);
+      this.onChange(this.factor);
+      if (this.factor === target) this.clearRamp();
+    };
+    if (this.factor === target) return;
+    step();
+    if (this.factor !== target) {
+      this.rampTimer = window.setInterval(step, STEP_MS);
+    }
+  }
+
+  private clearRelease() {
+    if (this.releaseTimer !== null) {
+      window.clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+    }
+  }
+
+  private clearRamp() {
+    if (this.rampTimer !== null) {
+      window.clearInterval(this.rampTimer);
+      this.rampTimer = null;
+    }
+  }
+}
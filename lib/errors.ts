@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * What went wrong, in terms of what the user can do about it.
+ * - auth: the key or token was rejected
+ * - quota: the key ran out of quota
+ * - network: the connection failed or dropped
+ * - protocol: the service rejected or failed a request
+ * - media-permission: screen or audio capture was denied or unavailable
+ * - audio-context: the browser could not start audio processing
+ */
+export type LiveErrorCategory =
+  | 'auth'
+  | 'quota'
+  | 'network'
+  | 'protocol'
+  | 'media-permission'
+  | 'audio-context';
+
+/**
+ * Base class of all errors surfaced to the UI.
+ */
+export abstract class LiveError extends Error {
+  abstract readonly category: LiveErrorCategory;
+  // WebSocket close code, when the error comes from a closed session
+  readonly code?: number;
+
+  constructor(message: string, options?: { cause?: unknown; code?: number }) {
+    super(message, { cause: options?.cause });
+    this.name = new.target.name;
+    this.code = options?.code;
+  }
+}
+
+export class AuthError extends LiveError {
+  readonly category = 'auth';
+}
+
+export class QuotaError extends LiveError {
+  readonly category = 'quota';
+}
+
+export class NetworkError extends LiveError {
+  readonly category = 'network';
+}
+
+export class ProtocolError extends LiveError {
+  readonly category = 'protocol';
+}
+
+export class MediaPermissionError extends LiveError {
+  readonly category = 'media-permission';
+}
+
+export class AudioContextError extends LiveError {
+  readonly category = 'audio-context';
+}
+
+const QUOTA_PATTERN = /RESOURCE_EXHAUSTED|quota|rate limit|\b429\b/i;
+const AUTH_PATTERN =
+  /API key|PERMISSION_DENIED|UNAUTHENTICATED|unauthori[sz]ed|(token|key|credential)s? (has |have )?expired|\b40[13]\b/i;
+const NETWORK_PATTERN =
+  /network|fetch|timed? ?out|offline|ECONN|websocket|not connected/i;
+
+/**
+ * Picks the category of a message from the service or the browser.
+ */
+function classify(message: string, code?: number) {
+  if (QUOTA_PATTERN.test(message)) return QuotaError;
+  if (AUTH_PATTERN.test(message)) return AuthError;
+  // Policy violations without a recognizable reason are most often a bad key
+  if (code === 1008) return AuthError;
+  if (code === 1006 || NETWORK_PATTERN.test(message)) return NetworkError;
+  return ProtocolError;
+}
+
+/**
+ * Wraps anything thrown or emitted while talking to the Live API.
+ */
+export function toLiveError(e: unknown): LiveError {
+  if (e instanceof LiveError) return e;
+  const message =
+    (e as { message?: string })?.message || String(e || 'Unknown error');
+  const ErrorClass = classify(message);
+  return new ErrorClass(message, { cause: e });
+}
+
+/**
+ * Maps a close event to an error, or null when the session ended normally.
+ * @param reason - The close reason with any server prelude stripped
+ */
+export function closeEventToError(
+  e: CloseEvent,
+  reason: string = e.reason
+): LiveError | null {
+  if (e.code === 1000 && !/error/i.test(reason)) return null;
+  const ErrorClass = classify(reason, e.code);
+  return new ErrorClass(
+    reason || `Connection closed unexpectedly (code ${e.code})`,
+    { cause: e, code: e.code }
+  );
+}
@@ -3,7 +3,6 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import {
-  GoogleGenAI,
   LiveCallbacks,
   LiveClientToolResponse,
   LiveConnectConfig,
@@ -12,13 +11,31 @@ import {
   LiveServerToolCall,
   LiveServerToolCallCancellation,
   Part,
-  Session,
   Content,
+  UsageMetadata,
 } from '@google/genai';
 import EventEmitter from 'eventemitter3';
 import { DEFAULT_LIVE_API_MODEL } from './constants';
 import { difference } from 'lodash';
 import { base64ToArrayBuffer } from './utils';
+import {
+  GenAILiveTransport,
+  LiveTransport,
+  LiveTransportSession,
+} from './live-transport';
+import { SessionRecorder } from './session-recorder';
+import {
+  formatSendStats,
+  RealtimeSendQueue,
+  SendStats,
+} from './send-queue';
+import { AuthTokenProvider } from './auth-token-provider';
+import {
+  closeEventToError,
+  LiveError,
+  NetworkError,
+  toLiveError,
+} from './errors';
 
 /**
  * Represents a single log entry in the system.
@@ -48,8 +65,8 @@ export interface LiveClientEventTypes {
   close: (event: CloseEvent) => void;
   // Emitted when content is received from the server
   content: (data: LiveServerContent) => void;
-  // Emitted when an error occurs
-  error: (e: ErrorEvent) => void;
+  // Emitted when an error occurs, including sessions closed by an error
+  error: (e: LiveError) => void;
   // Emitted when the server interrupts the current generation
   interrupted: () => void;
   // Emitted for logging events
@@ -66,33 +83,121 @@ export interface LiveClientEventTypes {
   ) => void;
   // Emitted when the current turn is complete
   turncomplete: () => void;
+  // Emitted for text the model streams when responding with text
+  text: (text: string) => void;
+  // Emitted periodically with upload throughput while input is sent
+  sendstats: (stats: SendStats) => void;
+  // Emitted when a queued frame went out, dropped frames never are
+  framesent: (frame: { mimeType: string; data: string }) => void;
+  // Emitted when the server reports token usage
+  usage: (usage: UsageMetadata) => void;
+  // Emitted when the server announces it will close the connection soon
+  goaway: (timeLeft?: string) => void;
+  // Emitted before each reconnect attempt after an unexpected drop
+  reconnecting: (attempt: number, delayMs: number) => void;
+  // Emitted when a dropped session has been re-established
+  reconnected: () => void;
   inputTranscription: (text: string, isFinal: boolean) => void;
   outputTranscription: (text: string, isFinal: boolean) => void;
 }
 
+/**
+ * Controls how the client re-establishes a session after an unexpected drop.
+ * Delays grow exponentially from `baseDelayMs` up to `maxDelayMs`, and each
+ * delay is randomized by +/- `jitter` (a 0-1 ratio) to avoid thundering herds.
+ */
+export interface ReconnectPolicy {
+  enabled: boolean;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: true,
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  jitter: 0.3,
+};
+
+/**
+ * - auto: the server detects when the speaker starts and stops
+ * - manual: the client signals activity start/end and only sends audio
+ *   while there is activity
+ */
+export type ActivityMode = 'auto' | 'manual';
+
+// An attempt to open a session fails if the socket is not open by then
+const CONNECT_TIMEOUT_MS = 15000;
+
 export class GenAILiveClient {
   public readonly model: string = DEFAULT_LIVE_API_MODEL;
 
-  protected readonly client: GoogleGenAI;
-  protected session?: Session;
+  protected readonly transport: LiveTransport;
+  protected session?: LiveTransportSession;
   public emitter = new EventEmitter<LiveClientEventTypes>();
 
-  private _status: 'connected' | 'disconnected' | 'connecting' = 'disconnected';
+  private _status: 'connected' | 'disconnected' | 'connecting' | 'reconnecting' =
+    'disconnected';
   public get status() {
     return this._status;
   }
 
+  public readonly reconnectPolicy: ReconnectPolicy;
+
+  // When set, inbound messages and outbound realtime chunks are captured
+  public recorder: SessionRecorder | null = null;
+
+  // Config of the current session, replayed on reconnect
+  private config: LiveConnectConfig | null = null;
+  // Latest resumable handle received via sessionResumptionUpdate
+  private resumptionHandle?: string;
+  private reconnectAttempt = 0;
+  private reconnectTimer: number | null = null;
+  // Incremented for every opened session so callbacks of stale sessions are ignored
+  private sessionGeneration = 0;
+
+  // Applies to sessions opened after it is changed
+  public activityMode: ActivityMode = 'auto';
+  // Whether an activity start was signalled without a matching end
+  private inActivity = false;
+  // Last audio chunk dropped outside activity, sent ahead of the next activity
+  private preRoll: { mimeType: string; data: string } | null = null;
+
+  // Paces realtime input to the link and the upload budget
+  public readonly sendQueue = new RealtimeSendQueue(
+    {
+      send: chunk => this.session?.sendRealtimeInput({ media: chunk }),
+      bufferedAmount: () => this.session?.bufferedAmount?.() ?? 0,
+      frameSent: frame => this.emitter.emit('framesent', frame),
+    },
+    stats => {
+      this.log('client.realtimeInput', formatSendStats(stats));
+      this.emitter.emit('sendstats', stats);
+    }
+  );
+
   /**
    * Creates a new GenAILiveClient instance.
-   * @param apiKey - API key for authentication with Google GenAI
+   * @param authOrTransport - API key or token provider for Google GenAI, or a
+   * custom transport
    * @param model - Optional model name to override the default model
+   * @param reconnectPolicy - Optional overrides for the reconnect policy
    */
-  constructor(apiKey: string, model?: string) {
+  constructor(
+    authOrTransport: string | AuthTokenProvider | LiveTransport,
+    model?: string,
+    reconnectPolicy?: Partial<ReconnectPolicy>
+  ) {
     if (model) this.model = model;
+    this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...reconnectPolicy };
 
-    this.client = new GoogleGenAI({
-      apiKey: apiKey,
-    });
+    this.transport =
+      typeof authOrTransport === 'string' || 'getToken' in authOrTransport
+        ? new GenAILiveTransport(authOrTransport)
+        : authOrTransport;
   }
 
   public on<K extends keyof LiveClientEventTypes>(
@@ -117,49 +222,249 @@ export class GenAILiveClient {
     }
 
     this._status = 'connecting';
-    const callbacks: LiveCallbacks = {
-      onopen: this.onOpen.bind(this),
-      onmessage: this.onMessage.bind(this),
-      onerror: this.onError.bind(this),
-      onclose: this.onClose.bind(this),
-    };
+    this.config = config;
+    this.resumptionHandle = undefined;
+    this.reconnectAttempt = 0;
 
     try {
-      this.session = await this.client.live.connect({
-        model: this.model,
-        config: {
-          ...config,
-        },
-        callbacks,
-      });
+      await this.openSession();
     } catch (e: any) {
+      // Disconnected while the socket was opening
+      if (!this.config) return false;
       console.error('Error connecting to GenAI Live:', e);
       this._status = 'disconnected';
       this.session = undefined;
-      const errorEvent = new ErrorEvent('error', {
-        error: e,
-        message: e?.message || 'Failed to connect.',
-      });
-      this.onError(errorEvent);
+      this.config = null;
+      this.onError(toLiveError(e));
       return false;
     }
 
+    // Superseded by a disconnect, the socket was closed again
+    if (!this.session) return false;
     this._status = 'connected';
     return true;
   }
 
   public disconnect() {
+    this.clearReconnectTimer();
+    // Invalidate callbacks of the session we are about to close
+    this.sessionGeneration++;
     this.session?.close();
     this.session = undefined;
+    this.sendQueue.stop();
+    this.config = null;
+    this.resumptionHandle = undefined;
+    this.reconnectAttempt = 0;
+    this.inActivity = false;
+    this.preRoll = null;
     this._status = 'disconnected';
 
     this.log('client.close', `Disconnected`);
     return true;
   }
 
+  /**
+   * Keeps a replaced session open for `ms` so audio it still sends reaches
+   * `onAudio`, then disconnects it.
+   */
+  public retire(ms: number, onAudio: (data: ArrayBuffer) => void) {
+    // The session that replaces it is recorded from now on
+    this.recorder = null;
+    this.emitter.on('audio', onAudio);
+    window.setTimeout(() => {
+      this.emitter.off('audio', onAudio);
+      this.disconnect();
+    }, ms);
+  }
+
+  /**
+   * Opens a Live session for the stored config, resuming the previous
+   * session's context when a resumption handle is available.
+   *
+   * The SDK does not reject when the socket fails to open, it reports the
+   * error and close through the callbacks and never settles. Those, or no
+   * open within CONNECT_TIMEOUT_MS, reject the attempt instead.
+   */
+  private async openSession() {
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+
+    let attempting = true;
+    let failAttempt: (error: LiveError) => void = () => {};
+    const failed = new Promise<never>((_, reject) => (failAttempt = reject));
+    let timer = 0;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = window.setTimeout(
+        () => reject(new NetworkError('Timed out opening the connection')),
+        CONNECT_TIMEOUT_MS
+      );
+    });
+
+    const callbacks: LiveCallbacks = {
+      onopen: () => isCurrent() && this.onOpen(),
+      onmessage: (message: LiveServerMessage) =>
+        isCurrent() && this.onMessage(message),
+      // Socket errors carry no details, the close event that follows does
+      onerror: (e: ErrorEvent) => {
+        if (!isCurrent()) return;
+        const error = new NetworkError(e.message || 'Connection error', {
+          cause: e,
+        });
+        if (attempting) failAttempt(error);
+        else this.onError(error);
+      },
+      onclose: (e: CloseEvent) => {
+        if (!isCurrent()) return;
+        if (attempting) {
+          failAttempt(
+            closeEventToError(e) ??
+              new NetworkError(`Connection closed (code ${e.code})`)
+          );
+        } else {
+          this.onClose(e);
+        }
+      },
+    };
+
+    const connecting = this.transport.connect({
+      model: this.model,
+      config: {
+        ...this.config,
+        sessionResumption: { handle: this.resumptionHandle },
+        ...(this.activityMode === 'manual' && {
+          realtimeInputConfig: {
+            ...this.config?.realtimeInputConfig,
+            automaticActivityDetection: { disabled: true },
+          },
+        }),
+      },
+      callbacks,
+    });
+
+    let session: LiveTransportSession;
+    try {
+      session = await Promise.race([connecting, failed, timedOut]);
+    } catch (e) {
+      // Ignore the failed socket from now on, and close it should it open
+      if (isCurrent()) this.sessionGeneration++;
+      connecting.then(
+        late => late.close(),
+        () => {}
+      );
+      throw e;
+    } finally {
+      attempting = false;
+      window.clearTimeout(timer);
+    }
+
+    if (!isCurrent()) {
+      // Superseded by a disconnect while the socket was opening
+      session.close();
+      return;
+    }
+    this.session = session;
+  }
+
+  private canReconnect() {
+    return (
+      this.reconnectPolicy.enabled &&
+      this.config !== null &&
+      this.reconnectAttempt < this.reconnectPolicy.maxAttempts
+    );
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private scheduleReconnect() {
+    const { baseDelayMs, maxDelayMs, jitter } = this.reconnectPolicy;
+    this.reconnectAttempt++;
+    const backoff = Math.min(
+      maxDelayMs,
+      baseDelayMs * 2 ** (this.reconnectAttempt - 1)
+    );
+    const delay = Math.round(backoff * (1 + (Math.random() * 2 - 1) * jitter));
+
+    this._status = 'reconnecting';
+    this.log(
+      'client.reconnect',
+      `attempt ${this.reconnectAttempt}/${this.reconnectPolicy.maxAttempts} in ${delay}ms${
+        this.resumptionHandle ? ' (resuming session)' : ''
+      }`
+    );
+    this.emitter.emit('reconnecting', this.reconnectAttempt, delay);
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect() {
+    this.session = undefined;
+    this.sendQueue.stop();
+    try {
+      await this.openSession();
+    } catch (e: any) {
+      // Disconnected while the attempt was running
+      if (!this.config) return;
+      console.warn('Reconnect attempt failed:', e);
+      const error = toLiveError(e);
+      if (this.isRecoverable(error) && this.canReconnect()) {
+        this.scheduleReconnect();
+      } else {
+        this.giveUpReconnect(error.message || 'Failed to reconnect.');
+      }
+      return;
+    }
+
+    if (!this.session) return;
+    this._status = 'connected';
+    if (this.activityMode === 'manual' && this.inActivity) {
+      // The new session has not heard the start of the ongoing activity
+      this.session.sendRealtimeInput({ activityStart: {} });
+    }
+    this.log('client.reconnect', 'reconnected');
+    this.emitter.emit('reconnected');
+  }
+
+  private giveUpReconnect(reason: string) {
+    this._status = 'disconnected';
+    this.config = null;
+    this.resumptionHandle = undefined;
+    const message = `Connection lost after ${this.reconnectAttempt} reconnect attempts: ${reason}`;
+    this.log('client.reconnect', message);
+    this.emitter.emit('error', new NetworkError(message));
+    this.emitter.emit(
+      'close',
+      new CloseEvent('close', { code: 1006, reason: message })
+    );
+  }
+
+  /**
+   * Closes the current socket and immediately resumes on a fresh one.
+   * Used when the server announces an upcoming disconnect via goAway.
+   */
+  private handover() {
+    if (this._status !== 'connected' || !this.config) return;
+    this.sessionGeneration++;
+    this.session?.close();
+    this.session = undefined;
+    this.sendQueue.stop();
+    this._status = 'reconnecting';
+    this.log('client.reconnect', 'handing over to a resumed session');
+    this.emitter.emit('reconnecting', 0, 0);
+    this.reconnect();
+  }
+
   public send(parts: Part | Part[], turnComplete: boolean = true) {
     if (this._status !== 'connected' || !this.session) {
-      this.emitter.emit('error', new ErrorEvent('Client is not connected'));
+      this.emitter.emit('error', new NetworkError('Client is not connected'));
       return;
     }
     // FIX: Structure the content as a Content object with explicit role: 'user'.
@@ -174,33 +479,62 @@ export class GenAILiveClient {
   }
 
   public sendRealtimeInput(chunks: Array<{ mimeType: string; data: string }>) {
+    if (this._status === 'connecting' || this._status === 'reconnecting') {
+      // Realtime input is lossy by nature, drop it until the session is open.
+      // The recorder is attached before connect() resolves
+      return;
+    }
     if (this._status !== 'connected' || !this.session) {
-      this.emitter.emit('error', new ErrorEvent('Client is not connected'));
+      this.emitter.emit('error', new NetworkError('Client is not connected'));
       return;
     }
-    chunks.forEach(chunk => {
-      this.session!.sendRealtimeInput({ media: chunk });
-    });
+    if (this.activityMode === 'manual' && !this.inActivity) {
+      // Audio outside of activity is silence, keep only the latest as pre-roll
+      const audio = chunks.filter(c => c.mimeType.startsWith('audio/'));
+      if (audio.length) {
+        this.preRoll = audio[audio.length - 1];
+        chunks = chunks.filter(c => !audio.includes(c));
+        if (!chunks.length) return;
+      }
+    }
+    this.sendQueue.enqueue(chunks);
+    this.recorder?.recordOutbound(chunks);
+  }
 
-    let hasAudio = false;
-    let hasVideo = false;
-    for (let i = 0; i < chunks.length; i++) {
-      const ch = chunks[i];
-      if (ch.mimeType.includes('audio')) hasAudio = true;
-      if (ch.mimeType.includes('image')) hasVideo = true;
-      if (hasAudio && hasVideo) break;
+  /**
+   * Signals that the speaker started talking. Only used in manual activity
+   * mode, the audio captured just before is sent along.
+   */
+  public activityStart() {
+    if (this.activityMode !== 'manual' || this.inActivity) return;
+    this.inActivity = true;
+    if (this._status !== 'connected' || !this.session) return;
+    this.sendQueue.sendInOrder(() => {
+      this.session?.sendRealtimeInput({ activityStart: {} });
+    });
+    this.log('client.activity', 'start');
+    if (this.preRoll) {
+      this.sendRealtimeInput([this.preRoll]);
+      this.preRoll = null;
     }
+  }
 
-    let message = 'unknown';
-    if (hasAudio && hasVideo) message = 'audio + video';
-    else if (hasAudio) message = 'audio';
-    else if (hasVideo) message = 'video';
-    this.log(`client.realtimeInput`, message);
+  /**
+   * Signals that the speaker stopped talking, after the audio sent so far.
+   */
+  public activityEnd() {
+    if (this.activityMode !== 'manual' || !this.inActivity) return;
+    this.inActivity = false;
+    if (this._status !== 'connected' || !this.session) return;
+    this.sendQueue.sendInOrder(() => {
+      this.session?.sendRealtimeInput({ activityEnd: {} });
+    });
+    this.log('client.activity', 'end');
   }
 
   public sendToolResponse(toolResponse: LiveClientToolResponse) {
     if (this._status !== 'connected' || !this.session) {
-      this.emitter.emit('error', new ErrorEvent('Client is not connected'));
+      this.emitter.emit('error', new NetworkError('Client is not connected'));
       return;
     }
     if (
@@ -216,7 +550,28 @@ export class GenAILiveClient {
   }
 
   protected onMessage(message: LiveServerMessage) {
+    this.recorder?.recordInbound(message);
+    if (message.sessionResumptionUpdate) {
+      const { newHandle, resumable } = message.sessionResumptionUpdate;
+      if (resumable && newHandle) {
+        this.resumptionHandle = newHandle;
+      }
+      this.log('server.sessionResumptionUpdate', { resumable });
+    }
+    if (message.usageMetadata) {
+      this.emitter.emit('usage', message.usageMetadata);
+      this.log('server.usage', `${message.usageMetadata.totalTokenCount ?? 0} tokens`);
+    }
+    if (message.goAway) {
+      this.log('server.goAway', `time left: ${message.goAway.timeLeft}`);
+      this.emitter.emit('goaway', message.goAway.timeLeft);
+      if (this.reconnectPolicy.enabled && this.resumptionHandle) {
+        this.handover();
+      }
+    }
     if (message.setupComplete) {
+      // Only count a reconnect as successful once the server accepted the setup
+      this.reconnectAttempt = 0;
       this.emitter.emit('setupcomplete');
       return;
     }
@@ -280,6 +635,14 @@ export class GenAILiveClient {
           }
         });
 
+        const text = otherParts
+          .filter(p => p.text && !p.thought)
+          .map(p => p.text)
+          .join('');
+        if (text) {
+          this.emitter.emit('text', text);
+        }
+
         if (otherParts.length > 0) {
           const content: LiveServerContent = { modelTurn: { parts: otherParts } };
           this.emitter.emit('content', content);
@@ -294,12 +657,21 @@ export class GenAILiveClient {
     }
   }
 
-  protected onError(e: ErrorEvent) {
+  protected onError(e: LiveError) {
+    if (
+      this._status === 'connected' &&
+      e.category === 'network' &&
+      this.canReconnect()
+    ) {
+      // The socket will close next; onClose takes care of reconnecting
+      this.log('server.error', `connection error: ${e.message}`);
+      return;
+    }
     this._status = 'disconnected';
     console.error('error:', e);
 
     const message = `Could not connect to GenAI Live: ${e.message}`;
-    this.log(`server.${e.type}`, message);
+    this.log(`server.error.${e.category}`, message);
     this.emitter.emit('error', e);
   }
 
@@ -309,7 +681,6 @@ export class GenAILiveClient {
   }
 
   protected onClose(e: CloseEvent) {
-    this._status = 'disconnected';
     let reason = e.reason || '';
     if (reason.toLowerCase().includes('error')) {
       const prelude = 'ERROR]';
@@ -323,9 +694,38 @@ export class GenAILiveClient {
       `server.${e.type}`,
       `disconnected ${reason ? `with reason: ${reason}` : ``}`
     );
+    this.session = undefined;
+    this.sendQueue.stop();
+
+    const error = closeEventToError(e, reason);
+    if (
+      this._status === 'connected' &&
+      (!error || this.isRecoverable(error)) &&
+      this.canReconnect()
+    ) {
+      this.scheduleReconnect();
+      return;
+    }
+
+    // Errors already reported by onError leave the status disconnected
+    const unreported = this._status !== 'disconnected';
+    this._status = 'disconnected';
+    this.config = null;
+    this.resumptionHandle = undefined;
+    if (error && unreported) {
+      this.log(`server.error.${error.category}`, error.message);
+      this.emitter.emit('error', error);
+    }
     this.emitter.emit('close', e);
   }
 
+  /**
+   * Auth and quota errors will not go away by retrying.
+   */
+  private isRecoverable(error: LiveError) {
+    return error.category === 'network' || error.category === 'protocol';
+  }
+
   /**
    * Internal method to emit a log event.
    * @param type - Log type
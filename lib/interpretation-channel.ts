@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveConnectConfig, UsageMetadata } from '@google/genai';
+import EventEmitter from 'eventemitter3';
+import { AudioStreamer } from './audio-streamer';
+import { GenAILiveClient } from './genai-live-client';
+import { withCarryOverContext } from './prompts';
+import { SESSION_CARRY_OVER_CHARS } from './constants';
+
+export type ChannelStatus =
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected';
+
+export interface InterpretationChannelEventTypes {
+  status: (status: ChannelStatus) => void;
+  transcript: (text: string) => void;
+  usage: (usage: UsageMetadata) => void;
+}
+
+/**
+ * An additional interpretation of the shared capture into one language.
+ * Owns its own Live session and AudioStreamer, so it can be heard or kept
+ * silent while it keeps transcribing.
+ */
+export class InterpretationChannel {
+  private emitter = new EventEmitter<InterpretationChannelEventTypes>();
+  public on = this.emitter.on.bind(this.emitter);
+  public off = this.emitter.off.bind(this.emitter);
+
+  public client: GenAILiveClient;
+  // Off for subtitles, the voice is then only transcribed
+  public voiceEnabled = true;
+  private unbind: () => void = () => {};
+  // Tail of the interpretation, carried over when the session rolls over
+  private recentOutput = '';
+
+  private _status: ChannelStatus = 'disconnected';
+  public get status() {
+    return this._status;
+  }
+
+  /**
+   * @param language - Target language of this channel
+   * @param streamer - Streamer the interpreter voice is played through
+   * @param createClient - Factory for the channel's Live clients
+   */
+  constructor(
+    public readonly language: string,
+    public readonly streamer: AudioStreamer,
+    private createClient: () => GenAILiveClient
+  ) {
+    this.client = createClient();
+  }
+
+  private setStatus(status: ChannelStatus) {
+    this._status = status;
+    this.emitter.emit('status', status);
+  }
+
+  private bind(client: GenAILiveClient) {
+    const unbindContent = this.bindContent(client);
+    const unbindStatus = this.bindStatus(client);
+    this.unbind = () => {
+      unbindContent();
+      unbindStatus();
+    };
+  }
+
+  // Bound before a rolled over session connects, so nothing it sends is missed
+  private bindContent(client: GenAILiveClient) {
+    const onAudio = (data: ArrayBuffer) => {
+      if (this.voiceEnabled) this.streamer.addPCM16(new Uint8Array(data));
+    };
+    const onInterrupted = () => this.streamer.stop();
+    // Transcript of the voice, or the text of a text-only session
+    const onOutputTranscription = (text: string) => {
+      this.recentOutput = (this.recentOutput + text).slice(
+        -SESSION_CARRY_OVER_CHARS
+      );
+      this.emitter.emit('transcript', text);
+    };
+    const onUsage = (usage: UsageMetadata) => this.emitter.emit('usage', usage);
+
+    client.on('audio', onAudio);
+    client.on('interrupted', onInterrupted);
+    client.on('outputTranscription', onOutputTranscription);
+    client.on('text', onOutputTranscription);
+    client.on('usage', onUsage);
+
+    return () => {
+      client.off('audio', onAudio);
+      client.off('interrupted', onInterrupted);
+      client.off('outputTranscription', onOutputTranscription);
+      client.off('text', onOutputTranscription);
+      client.off('usage', onUsage);
+    };
+  }
+
+  private bindStatus(client: GenAILiveClient) {
+    const onReconnecting = () => this.setStatus('reconnecting');
+    const onReconnected = () => this.setStatus('connected');
+    const onClose = () => this.setStatus('disconnected');
+
+    client.on('reconnecting', onReconnecting);
+    client.on('reconnected', onReconnected);
+    client.on('close', onClose);
+
+    return () => {
+      client.off('reconnecting', onReconnecting);
+      client.off('reconnected', onReconnected);
+      client.off('close', onClose);
+    };
+  }
+
+  async connect(config: LiveConnectConfig) {
+    this.recentOutput = '';
+    this.setStatus('connecting');
+    this.bind(this.client);
+    const ok = await this.client.connect(config);
+    this.setStatus(ok ? 'connected' : 'disconnected');
+    return ok;
+  }
+
+  /**
+   * Moves the channel to a fresh session seeded with its recent output and
+   * cross-fades the voice. The current session stays up if that fails, the
+   * replaced one plays out during the cross-fade.
+   */
+  async rollover(config: LiveConnectConfig, crossfadeSeconds: number) {
+    const next = this.createClient();
+    const unbindContent = this.bindContent(next);
+    const ok = await next.connect(
+      withCarryOverContext(config, this.recentOutput)
+    );
+    // Closed while the new session was opening
+    if (!ok || this._status === 'disconnected') {
+      unbindContent();
+      next.disconnect();
+      return false;
+    }
+
+    this.unbind();
+    const playOutgoing = this.streamer.crossfade(crossfadeSeconds);
+    this.client.retire(crossfadeSeconds * 1000, data =>
+      playOutgoing(new Uint8Array(data))
+    );
+    this.client = next;
+    const unbindStatus = this.bindStatus(next);
+    this.unbind = () => {
+      unbindContent();
+      unbindStatus();
+    };
+    return true;
+  }
+
+  sendRealtimeInput(chunks: Array<{ mimeType: string; data: string }>) {
+    if (this._status === 'connected') {
+      this.client.sendRealtimeInput(chunks);
+    }
+  }
+
+  /**
+   * Plays or silences this channel's voice, transcription keeps running.
+   */
+  setHeard(heard: boolean) {
+    this.streamer.voiceGain.gain.value = heard ? 1 : 0;
+  }
+
+  disconnect() {
+    this.unbind();
+    this.client.disconnect();
+    this.streamer.stop();
+    this.setStatus('disconnected');
+  }
+
+  dispose() {
+    this.disconnect();
+    this.streamer.dispose();
+  }
+}
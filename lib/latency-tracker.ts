@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Pipeline stages measured from the source starting to speak.
+ * - transcription: first input transcription received
+ * - response: first interpreter audio received
+ * - playback: interpreter audio actually starting to play
+ */
+export type LatencyMetric = 'transcription' | 'response' | 'playback';
+
+/**
+ * Measures interpretation lag per model turn. The Live API does not tie
+ * output to specific input chunks, so each turn is measured from the first
+ * speech the voice activity detector heard after the previous turn ended,
+ * deliberately not from the chunks sendRealtimeInput() sends: capture runs
+ * continuously, and silence before the speech must not count.
+ */
+export class LatencyTracker {
+  // Start of the speech the current turn interprets
+  private turnStart: number | null = null;
+  private speaking = false;
+  private measured = new Set<LatencyMetric>();
+
+  constructor(private onSample: (metric: LatencyMetric, ms: number) => void) {}
+
+  private measure(metric: LatencyMetric, at: number) {
+    if (this.turnStart === null || this.measured.has(metric)) return;
+    this.measured.add(metric);
+    this.onSample(metric, Math.max(0, at - this.turnStart));
+  }
+
+  speechStarted(at = performance.now()) {
+    this.speaking = true;
+    if (this.turnStart === null) this.turnStart = at;
+  }
+
+  speechEnded() {
+    this.speaking = false;
+  }
+
+  inputTranscription(at = performance.now()) {
+    this.measure('transcription', at);
+  }
+
+  audioReceived(at = performance.now()) {
+    this.measure('response', at);
+  }
+
+  /**
+   * @param at - Wall clock time (performance.now() base) playback starts at
+   */
+  playbackStarted(at: number) {
+    // Playback only counts once audio of this turn has been received
+    if (!this.measured.has('response')) return;
+    this.measure('playback', at);
+  }
+
+  /**
+   * Speech still going on when a turn ends is what the next turn
+   * interprets, so that turn starts here.
+   */
+  turnEnded(at = performance.now()) {
+    this.turnStart = this.speaking ? at : null;
+    this.measured.clear();
+  }
+}
+
+/**
+ * Value below which `p` (0-1) of the samples fall.
+ */
+export function percentile(samples: number[], p: number) {
+  if (!samples.length) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GoogleGenAI,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { ApiKeyProvider, AuthTokenProvider } from './auth-token-provider';
+
+/**
+ * The subset of a Live session used by GenAILiveClient.
+ * The SDK `Session` satisfies it as is.
+ */
+export interface LiveTransportSession {
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+  // Bytes queued on the socket but not yet sent, when known
+  bufferedAmount?(): number;
+}
+
+/**
+ * Opens Live sessions. Implementations deliver server messages and socket
+ * state through the callbacks in `params`, exactly like `ai.live.connect`.
+ */
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveTransportSession>;
+}
+
+// The missing socket is reported once per page
+let warnedNoSocket = false;
+
+/**
+ * Transport backed by the Gemini Live API. Credentials are fetched from the
+ * provider for every session, so reconnects always use a valid token.
+ */
+export class GenAILiveTransport implements LiveTransport {
+  private readonly auth: AuthTokenProvider;
+
+  constructor(auth: string | AuthTokenProvider) {
+    this.auth = typeof auth === 'string' ? new ApiKeyProvider(auth) : auth;
+  }
+
+  async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    const { token, ephemeral } = await this.auth.getToken();
+    const client = new GoogleGenAI({
+      apiKey: token,
+      // Ephemeral tokens are only accepted by the v1alpha API
+      httpOptions: ephemeral ? { apiVersion: 'v1alpha' } : undefined,
+    });
+    const session = await client.live.connect(params);
+    // The SDK does not expose its socket. @google/genai 1.52.0 keeps it in
+    // the private `session.conn.ws`, check this after upgrading: without it
+    // the send queue never sees congestion
+    const socket = (session as unknown as { conn?: { ws?: WebSocket } }).conn;
+    if (!socket?.ws && !warnedNoSocket) {
+      warnedNoSocket = true;
+      console.warn(
+        'The Live API socket is not reachable, congestion goes undetected'
+      );
+    }
+    return {
+      sendClientContent: p => session.sendClientContent(p),
+      sendRealtimeInput: p => session.sendRealtimeInput(p),
+      sendToolResponse: p => session.sendToolResponse(p),
+      close: () => session.close(),
+      bufferedAmount: () => socket?.ws?.bufferedAmount ?? 0,
+    };
+  }
+}
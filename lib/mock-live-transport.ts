@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { LiveTransport, LiveTransportSession } from './live-transport';
+
+class MockLiveSession implements LiveTransportSession {
+  constructor(private ws: WebSocket) {}
+
+  private send(message: object) {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.send({ clientContent: params });
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.send({ realtimeInput: params });
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    this.send({ toolResponse: params });
+  }
+
+  close() {
+    this.ws.close(1000);
+  }
+
+  bufferedAmount() {
+    return this.ws.bufferedAmount;
+  }
+}
+
+/**
+ * Transport talking to the local mock Live server (see server/mock-live-server.ts).
+ * The server replies with the same message shapes as the Live API, driven by
+ * a named scenario so interruption and tool-call flows are reproducible.
+ */
+export class MockLiveTransport implements LiveTransport {
+  /**
+   * @param url - WebSocket URL of the mock server
+   * @param scenario - Optional scenario name, defaults to the server's choice
+   */
+  constructor(
+    private url: string,
+    private scenario?: string
+  ) {}
+
+  connect({
+    model,
+    config,
+    callbacks,
+  }: LiveConnectParameters): Promise<LiveTransportSession> {
+    const url = new URL(this.url);
+    if (this.scenario) url.searchParams.set('scenario', this.scenario);
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        ws.send(JSON.stringify({ setup: { model, config } }));
+        callbacks.onopen?.();
+        resolve(new MockLiveSession(ws));
+      };
+      ws.onmessage = async (ev: MessageEvent) => {
+        const text =
+          typeof ev.data === 'string' ? ev.data : await ev.data.text();
+        callbacks.onmessage(JSON.parse(text) as LiveServerMessage);
+      };
+      ws.onerror = () => {
+        const error = new ErrorEvent('error', {
+          message: `Mock Live server at ${url} is not reachable`,
+        });
+        if (!opened) {
+          reject(new Error(error.message));
+          return;
+        }
+        callbacks.onerror?.(error);
+      };
+      ws.onclose = (e: CloseEvent) => {
+        if (opened) callbacks.onclose?.(e);
+      };
+    });
+  }
+}
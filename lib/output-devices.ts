@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Where the interpreter voice and the ambient pad are played.
+ * - mixed: both on the output device
+ * - split-channels: voice on the left, pad on the right of the output device
+ * - split-devices: voice on the output device, pad on a device of its own
+ */
+export type OutputRouting = 'mixed' | 'split-channels' | 'split-devices';
+
+// '' is the system default device
+export const DEFAULT_OUTPUT_DEVICE = '';
+
+// setSinkId is not in the DOM typings for AudioContext yet
+type SinkSelectableContext = AudioContext & {
+  setSinkId(sinkId: string): Promise<void>;
+};
+
+/**
+ * Whether the browser can play an audio context on a device other than the
+ * default one.
+ */
+export function supportsOutputSelection() {
+  return (
+    typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype
+  );
+}
+
+/**
+ * Audio output devices, labelled once the page has any media permission.
+ */
+export async function listOutputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(
+    device => device.kind === 'audiooutput' && device.deviceId !== 'default'
+  );
+}
+
+/**
+ * Plays the context on the given device. Falls back to the default device
+ * when the device is gone, and reports whether the choice took effect.
+ */
+export async function setContextOutputDevice(
+  context: AudioContext,
+  deviceId: string
+) {
+  if (!supportsOutputSelection()) return deviceId === DEFAULT_OUTPUT_DEVICE;
+  const selectable = context as SinkSelectableContext;
+  try {
+    await selectable.setSinkId(deviceId);
+    return true;
+  } catch (e) {
+    console.warn(`Output device ${deviceId} is unavailable, using the default`, e);
+    await selectable.setSinkId(DEFAULT_OUTPUT_DEVICE).catch(() => {});
+    return false;
+  }
+}
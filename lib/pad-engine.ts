@@ -0,0 +1,316 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createWorketFromSrc } from './audioworklet-registry';
+import PadSidechainWorklet from './worklets/pad-sidechain';
+
+const SIDECHAIN_WORKLET_NAME = 'pad-sidechain';
+
+// The sidechain module is added once per context
+const sidechainModules: WeakMap<BaseAudioContext, Promise<void>> =
+  new WeakMap();
+
+function loadSidechainModule(context: BaseAudioContext) {
+  let loaded = sidechainModules.get(context);
+  if (!loaded) {
+    loaded = context.audioWorklet.addModule(
+      createWorketFromSrc(SIDECHAIN_WORKLET_NAME, PadSidechainWorklet)
+    );
+    sidechainModules.set(context, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * drone-*: root, fifth and octave in the given key, noise: a filtered noise
+ * bed, evolving: a chord that slowly glides through a progression
+ */
+export type PadPreset =
+  | 'drone-d'
+  | 'drone-c'
+  | 'drone-f'
+  | 'drone-a'
+  | 'noise'
+  | 'evolving';
+
+export interface PadOptions {
+  preset: PadPreset;
+  // Lowpass the pad is played through
+  cutoffHz: number;
+  // How far the oscillators are spread around their pitch, in cents
+  detuneCents: number;
+  // How far the pad is lowered while the interpreter voice is heard,
+  // 0 turns the sidechain off
+  sidechainDepthDb: number;
+}
+
+export const DEFAULT_PAD_OPTIONS: PadOptions = {
+  preset: 'drone-d',
+  cutoffHz: 400,
+  detuneCents: 5,
+  sidechainDepthDb: 9,
+};
+
+// Root of each drone, played with its fifth and octave
+const DRONE_ROOTS: Record<string, number> = {
+  'drone-c': 130.81,
+  'drone-d': 146.83,
+  'drone-f': 174.61,
+  'drone-a': 110.0,
+};
+
+// Dmaj9, Bm7, Gmaj7, A6, four notes each
+const EVOLVING_CHORDS = [
+  [146.83, 220.0, 329.63, 369.99],
+  [123.47, 185.0, 293.66, 440.0],
+  [98.0, 196.0, 246.94, 369.99],
+  [110.0, 164.81, 277.18, 369.99],
+];
+const CHORD_DURATION_MS = 10000;
+// Time constant of the glide between chords, in seconds
+const CHORD_GLIDE_S = 2;
+
+const FADE_S = 2;
+
+// A sounding preset, faded out and stopped when replaced
+interface PadSound {
+  sources: AudioScheduledSourceNode[];
+  oscillators: OscillatorNode[];
+  // Spread of each oscillator, -1 to 1, scaled by detuneCents
+  spread: number[];
+  fade: GainNode;
+  timer: number | null;
+}
+
+/**
+ * Generates the ambient pad: the preset's sound through a lowpass, at the
+ * pad volume, ducked under the interpreter voice by a sidechain.
+ *
+ * sound => filter => volume => sidechain (keyed by the voice) => output
+ */
+export class PadEngine {
+  private filter: BiquadFilterNode;
+  private volume: GainNode;
+  private sidechain: Promise<AudioWorkletNode>;
+  private sound: PadSound | null = null;
+  private noise: AudioBuffer | null = null;
+
+  /**
+   * @param output - Node the pad plays into
+   * @param key - Node carrying the voice the pad is ducked under
+   */
+  constructor(
+    private context: AudioContext,
+    private output: AudioNode,
+    private key: AudioNode,
+    private options: PadOptions = DEFAULT_PAD_OPTIONS
+  ) {
+    this.filter = context.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.frequency.value = options.cutoffHz;
+    this.filter.Q.value = 1;
+    this.volume = context.createGain();
+    this.volume.gain.value = 0;
+    this.filter.connect(this.volume);
+    // Plays unducked until the sidechain is loaded
+    this.volume.connect(output);
+    this.sidechain = this.createSidechain();
+  }
+
+  /**
+   * Fades the pad in to `volume`. Does nothing while it plays.
+   */
+  start(volume: number) {
+    if (this.sound) return;
+    this.sound = this.createSound(this.options.preset);
+    this.sound.fade.gain.setValueAtTime(1, this.context.currentTime);
+    this.volume.gain.cancelScheduledValues(this.context.currentTime);
+    this.volume.gain.setValueAtTime(0, this.context.currentTime);
+    this.volume.gain.linearRampToValueAtTime(
+      volume,
+      this.context.currentTime + FADE_S
+    );
+  }
+
+  stop() {
+    const sound = this.sound;
+    if (!sound) return;
+    this.sound = null;
+    this.fadeOut(sound);
+  }
+
+  setVolume(volume: number) {
+    if (!this.sound) return;
+    // Ramp to new volume for smooth transition
+    this.volume.gain.linearRampToValueAtTime(
+      volume,
+      this.context.currentTime + 0.5
+    );
+  }
+
+  /**
+   * Applies new options, cross-fading to the new preset while playing.
+   */
+  setOptions(options: Partial<PadOptions>) {
+    const previous = this.options;
+    this.options = { ...previous, ...options };
+    const now = this.context.currentTime;
+    this.filter.frequency.setTargetAtTime(this.options.cutoffHz, now, 0.1);
+    this.postSidechainDepth();
+
+    if (this.sound && this.options.preset !== previous.preset) {
+      this.fadeOut(this.sound);
+      this.sound = this.createSound(this.options.preset);
+      this.sound.fade.gain.setValueAtTime(0, now);
+      this.sound.fade.gain.linearRampToValueAtTime(1, now + FADE_S);
+    } else if (this.sound) {
+      this.applyDetune(this.sound);
+    }
+  }
+
+  dispose() {
+    if (this.sound) this.stopSound(this.sound);
+    this.sound = null;
+    this.sidechain
+      .then(node => {
+        node.port.close();
+        node.disconnect();
+      })
+      .catch(() => {});
+    this.volume.disconnect();
+  }
+
+  private async createSidechain() {
+    await loadSidechainModule(this.context);
+    const node = new AudioWorkletNode(this.context, SIDECHAIN_WORKLET_NAME, {
+      numberOfInputs: 2,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+    });
+    this.key.connect(node, 0, 1);
+    this.volume.disconnect(this.output);
+    this.volume.connect(node).connect(this.output);
+    node.port.postMessage({ depthDb: this.options.sidechainDepthDb });
+    return node;
+  }
+
+  private postSidechainDepth() {
+    const depthDb = this.options.sidechainDepthDb;
+    this.sidechain
+      .then(node => node.port.postMessage({ depthDb }))
+      .catch(() => {});
+  }
+
+  private createSound(preset: PadPreset): PadSound {
+    const fade = this.context.createGain();
+    fade.connect(this.filter);
+    const sound: PadSound = {
+      sources: [],
+      oscillators: [],
+      spread: [],
+      fade,
+      timer: null,
+    };
+
+    if (preset === 'noise') {
+      const source = this.context.createBufferSource();
+      source.buffer = this.noiseBuffer();
+      source.loop = true;
+      source.connect(fade);
+      source.start();
+      sound.sources.push(source);
+      return sound;
+    }
+
+    const frequencies =
+      preset === 'evolving'
+        ? EVOLVING_CHORDS[0]
+        : [1, 1.5, 2].map(ratio => DRONE_ROOTS[preset] * ratio);
+    // Four notes sit closer together than three, keep the level similar
+    const level = preset === 'evolving' ? 0.75 : 1;
+    frequencies.forEach((frequency, i) => {
+      const osc = this.context.createOscillator();
+      osc.type = 'triangle'; // Triangle is softer than saw, richer than sine
+      osc.frequency.value = frequency;
+      const gain = this.context.createGain();
+      gain.gain.value = level;
+      osc.connect(gain).connect(fade);
+      osc.start();
+      sound.sources.push(osc);
+      sound.oscillators.push(osc);
+      // Alternate sides so the spread is even around the pitch
+      sound.spread.push((i % 2 ? 1 : -1) * (0.5 + Math.random() * 0.5));
+    });
+    this.applyDetune(sound);
+
+    if (preset === 'evolving') {
+      let chord = 0;
+      sound.timer = window.setInterval(() => {
+        chord = (chord + 1) % EVOLVING_CHORDS.length;
+        const now = this.context.currentTime;
+        sound.oscillators.forEach((osc, i) =>
+          osc.frequency.setTargetAtTime(
+            EVOLVING_CHORDS[chord][i],
+            now,
+            CHORD_GLIDE_S
+          )
+        );
+      }, CHORD_DURATION_MS);
+    }
+    return sound;
+  }
+
+  private applyDetune(sound: PadSound) {
+    const now = this.context.currentTime;
+    sound.oscillators.forEach((osc, i) =>
+      osc.detune.setTargetAtTime(
+        sound.spread[i] * this.options.detuneCents,
+        now,
+        0.1
+      )
+    );
+  }
+
+  private fadeOut(sound: PadSound) {
+    const now = this.context.currentTime;
+    sound.fade.gain.cancelScheduledValues(now);
+    sound.fade.gain.setValueAtTime(sound.fade.gain.value, now);
+    sound.fade.gain.linearRampToValueAtTime(0, now + FADE_S);
+    setTimeout(() => this.stopSound(sound), FADE_S * 1000);
+  }
+
+  private stopSound(sound: PadSound) {
+    if (sound.timer !== null) window.clearInterval(sound.timer);
+    sound.sources.forEach(source => {
+      try {
+        source.stop();
+      } catch (e) {
+        // Already stopped
+      }
+    });
+    sound.fade.disconnect();
+  }
+
+  // Pink noise (Paul Kellett's filter), looped
+  private noiseBuffer() {
+    if (this.noise) return this.noise;
+    const length = this.context.sampleRate * 4;
+    const buffer = this.context.createBuffer(1, length, this.context.sampleRate);
+    const data = buffer.getChannelData(0);
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+    for (let i = 0; i < length; i++) {
+      const white = Math.random() * 2 - 1;
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.969 * b2 + white * 0.153852;
+      b3 = 0.8665 * b3 + white * 0.3104856;
+      b4 = 0.55 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.016898;
+      data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+      b6 = white * 0.115926;
+    }
+    this.noise = buffer;
+    return buffer;
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 16-bit PCM appended in chunks and read back in blocks.
+ */
+export interface PcmStore {
+  readonly frames: number;
+  /**
+   * @returns false once the store is full or failed, the chunk is dropped
+   */
+  append(chunk: Int16Array): boolean;
+  read(start: number, count: number): Promise<Int16Array>;
+  // Everything appended, as raw PCM
+  blob(): Promise<Blob>;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Keeps the PCM in memory, up to `maxFrames`.
+ */
+class MemoryPcmStore implements PcmStore {
+  private chunks: Int16Array[] = [];
+  // First frame of each chunk
+  private offsets: number[] = [];
+  frames = 0;
+
+  constructor(private maxFrames: number) {}
+
+  append(chunk: Int16Array) {
+    if (this.frames + chunk.length > this.maxFrames) return false;
+    this.chunks.push(chunk);
+    this.offsets.push(this.frames);
+    this.frames += chunk.length;
+    return true;
+  }
+
+  async read(start: number, count: number) {
+    const out = new Int16Array(Math.max(0, Math.min(count, this.frames - start)));
+    // Last chunk starting at or before `start`
+    let i = this.offsets.length - 1;
+    while (i > 0 && this.offsets[i] > start) i--;
+    for (let written = 0; written < out.length && i < this.chunks.length; i++) {
+      const from = start + written - this.offsets[i];
+      const part = this.chunks[i].subarray(from, from + out.length - written);
+      out.set(part, written);
+      written += part.length;
+    }
+    return out;
+  }
+
+  async blob() {
+    return new Blob(this.chunks);
+  }
+
+  async dispose() {
+    this.chunks = [];
+    this.offsets = [];
+  }
+}
+
+/**
+ * Streams the PCM into a file of the origin private file system, only the
+ * writes in flight are held in memory.
+ */
+class FilePcmStore implements PcmStore {
+  private writing: Promise<void> = Promise.resolve();
+  private file: Promise<File> | null = null;
+  private failed = false;
+  frames = 0;
+
+  constructor(
+    private directory: FileSystemDirectoryHandle,
+    private handle: FileSystemFileHandle,
+    private writable: FileSystemWritableFileStream
+  ) {}
+
+  append(chunk: Int16Array) {
+    if (this.failed || this.file) return false;
+    this.frames += chunk.length;
+    this.writing = this.writing
+      .then(() => this.writable.write(chunk))
+      .catch(e => {
+        // Out of quota most likely, what was written so far is kept
+        if (!this.failed) console.warn('Could not store recorded audio', e);
+        this.failed = true;
+      });
+    return true;
+  }
+
+  async read(start: number, count: number) {
+    const file = await this.finish();
+    const buffer = await file
+      .slice(start * 2, Math.min(file.size, (start + count) * 2))
+      .arrayBuffer();
+    return new Int16Array(buffer);
+  }
+
+  blob() {
+    return this.finish();
+  }
+
+  async dispose() {
+    await this.finish().catch(() => {});
+    await this.directory.removeEntry(this.handle.name).catch(() => {});
+  }
+
+  // Closes the file once the writes are done, nothing is appended after
+  private finish() {
+    if (!this.file) {
+      this.file = this.writing
+        .then(() => this.writable.close())
+        .then(() => this.handle.getFile())
+        .then(file => {
+          // Failed writes leave fewer frames in the file than appended
+          this.frames = Math.floor(file.size / 2);
+          return file;
+        });
+    }
+    return this.file;
+  }
+}
+
+/**
+ * Creates stores in one directory of the origin private file system, and in
+ * memory where that is unavailable.
+ */
+export class PcmStorage {
+  private directory: Promise<FileSystemDirectoryHandle | null>;
+  private count = 0;
+
+  /**
+   * @param name - Directory of the stores, emptied of earlier stores
+   * @param maxMemoryFrames - Limit of each store kept in memory
+   */
+  constructor(name: string, private maxMemoryFrames: number) {
+    this.directory = openStorageDirectory(name);
+  }
+
+  async create(maxMemoryFrames = this.maxMemoryFrames): Promise<PcmStore> {
+    const directory = await this.directory;
+    if (directory) {
+      try {
+        const handle = await directory.getFileHandle(`${this.count++}.pcm`, {
+          create: true,
+        });
+        const writable = await handle.createWritable();
+        return new FilePcmStore(directory, handle, writable);
+      } catch (e) {
+        console.warn('Could not create a file for recorded audio', e);
+      }
+    }
+    return new MemoryPcmStore(maxMemoryFrames);
+  }
+}
+
+/**
+ * Opens a directory of the origin private file system, emptied of earlier
+ * files. Resolves null where the browser can not write files there.
+ */
+export async function openStorageDirectory(name: string) {
+  try {
+    const root = await navigator.storage.getDirectory();
+    // Files of an earlier recording stay until the next one, its download
+    // may still read from them
+    await root.removeEntry(name, { recursive: true }).catch(() => {});
+    const directory = await root.getDirectoryHandle(name, { create: true });
+    // Probe for writable files, not available in every browser
+    const probe = await directory.getFileHandle('probe', { create: true });
+    await directory.removeEntry('probe');
+    return typeof probe.createWritable === 'function' ? directory : null;
+  } catch (e) {
+    return null;
+  }
+}
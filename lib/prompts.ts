@@ -2,4 +2,31 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { Content, LiveConnectConfig } from '@google/genai';
 
+/**
+ * Seeds a rolled-over session with the tail of the previous interpretation
+ * so it picks up where the expiring session left off.
+ */
+export function withCarryOverContext(
+  config: LiveConnectConfig,
+  recentOutput: string
+): LiveConnectConfig {
+  const text = recentOutput.trim();
+  if (!text) return config;
+
+  const current = config.systemInstruction as Content | undefined;
+  const note = `
+CONTINUATION:
+This session continues an interpretation already in progress. Your most recent output was:
+"${text}"
+Continue seamlessly from there. Do not repeat it and do not greet the audience again.
+`;
+  return {
+    ...config,
+    systemInstruction: {
+      ...current,
+      parts: [...(current?.parts || []), { text: note }],
+    },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveConnectParameters } from '@google/genai';
+import { LiveTransport, LiveTransportSession } from './live-transport';
+import { RecordedEvent, SessionRecording } from './session-recorder';
+
+type InboundEvent = Extract<RecordedEvent, { direction: 'in' }>;
+
+/**
+ * Transport that plays the inbound messages of a recorded session back at
+ * their original pacing. Anything the client sends is ignored.
+ */
+export class ReplayLiveTransport implements LiveTransport {
+  constructor(private recording: SessionRecording) {}
+
+  async connect({
+    callbacks,
+  }: LiveConnectParameters): Promise<LiveTransportSession> {
+    const timers: number[] = [];
+    let closed = false;
+
+    const close = (reason: string) => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(timer => window.clearTimeout(timer));
+      callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason }));
+    };
+
+    const inbound = this.recording.events.filter(
+      (e): e is InboundEvent => e.direction === 'in'
+    );
+    inbound.forEach(event => {
+      timers.push(
+        window.setTimeout(() => callbacks.onmessage(event.message), event.t)
+      );
+    });
+    const end = inbound.length ? inbound[inbound.length - 1].t : 0;
+    timers.push(window.setTimeout(() => close('Replay finished'), end + 500));
+
+    callbacks.onopen?.();
+
+    return {
+      sendClientContent: () => {},
+      sendRealtimeInput: () => {},
+      sendToolResponse: () => {},
+      close: () => close('Replay stopped'),
+    };
+  }
+}
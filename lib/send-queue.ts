@@ -0,0 +1,346 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RealtimeChunk } from './session-recorder';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './utils';
+
+export interface SendQueueOptions {
+  // Upload budget per session in kbps, 0 disables budgeting
+  budgetKbps: number;
+  // Socket backlog above which the link counts as congested
+  maxBufferedBytes: number;
+  // Audio held back while congested, older audio is dropped beyond this
+  maxAudioBacklogMs: number;
+  // How often queued input is sent
+  flushIntervalMs: number;
+  // How often throughput stats are reported
+  statsIntervalMs: number;
+}
+
+export const DEFAULT_SEND_QUEUE_OPTIONS: SendQueueOptions = {
+  budgetKbps: 1000,
+  maxBufferedBytes: 64 * 1024,
+  maxAudioBacklogMs: 2000,
+  flushIntervalMs: 100,
+  statsIntervalMs: 5000,
+};
+
+/**
+ * Upload throughput over one stats interval.
+ */
+export interface SendStats {
+  intervalMs: number;
+  audioKbps: number;
+  videoKbps: number;
+  // Audio chunks received from the recorder and messages they were sent in
+  audioChunks: number;
+  audioMessages: number;
+  audioDroppedMs: number;
+  framesSent: number;
+  framesDownsized: number;
+  framesDropped: number;
+  // Socket backlog at the time of reporting
+  bufferedBytes: number;
+}
+
+/**
+ * Where the queue sends to. `bufferedAmount` reports bytes queued on the
+ * socket but not yet sent, `frameSent` gets each enqueued frame that went
+ * out, also when a downsized copy was sent in its place.
+ */
+export interface SendTarget {
+  send(chunk: RealtimeChunk): void;
+  bufferedAmount(): number;
+  frameSent?(frame: RealtimeChunk): void;
+}
+
+// A frame over budget is scaled to half width and height, a quarter the size
+const DOWNSIZE_SCALE = 0.5;
+const DOWNSIZE_RATIO = DOWNSIZE_SCALE * DOWNSIZE_SCALE;
+
+function sampleRateOf(mimeType: string) {
+  const match = /rate=(\d+)/.exec(mimeType);
+  return match ? Number(match[1]) : 16000;
+}
+
+/**
+ * Milliseconds of 16-bit mono PCM in a base64 chunk.
+ */
+function audioDurationMs(chunk: RealtimeChunk) {
+  const bytes = (chunk.data.length * 3) / 4;
+  return (bytes / 2 / sampleRateOf(chunk.mimeType)) * 1000;
+}
+
+/**
+ * Joins consecutive PCM chunks into one.
+ */
+function coalesceAudio(chunks: RealtimeChunk[]): RealtimeChunk {
+  if (chunks.length === 1) return chunks[0];
+  const buffers = chunks.map(c => new Uint8Array(base64ToArrayBuffer(c.data)));
+  const joined = new Uint8Array(buffers.reduce((n, b) => n + b.length, 0));
+  let offset = 0;
+  buffers.forEach(buffer => {
+    joined.set(buffer, offset);
+    offset += buffer.length;
+  });
+  return {
+    mimeType: chunks[0].mimeType,
+    data: arrayBufferToBase64(joined.buffer),
+  };
+}
+
+/**
+ * Re-encodes a JPEG frame at a smaller size, or returns null where the
+ * browser cannot do so off the main thread.
+ */
+async function downsizeFrame(chunk: RealtimeChunk, scale: number) {
+  if (typeof OffscreenCanvas === 'undefined') return null;
+  const bitmap = await createImageBitmap(
+    new Blob([base64ToArrayBuffer(chunk.data)], { type: chunk.mimeType })
+  );
+  const canvas = new OffscreenCanvas(
+    Math.max(1, Math.round(bitmap.width * scale)),
+    Math.max(1, Math.round(bitmap.height * scale))
+  );
+  canvas
+    .getContext('2d')
+    ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.5 });
+  return {
+    mimeType: 'image/jpeg',
+    data: arrayBufferToBase64(await blob.arrayBuffer()),
+  };
+}
+
+/**
+ * Paces realtime input to what the link and the budget allow.
+ *
+ * Audio is coalesced into one message per flush and always has priority: it
+ * is only held back while the socket is congested, and its oldest part is
+ * dropped once the backlog grows too long. Video gets whatever budget audio
+ * leaves. Only the newest frame is kept, frames over budget are downsized,
+ * and frames are dropped while congested.
+ */
+export class RealtimeSendQueue {
+  private audio: RealtimeChunk[] = [];
+  private frame: RealtimeChunk | null = null;
+  private downsizing = false;
+
+  // Token bucket in bytes, holding at most one second of budget
+  private tokens = 0;
+  private lastRefill = 0;
+
+  private flushTimer: number | null = null;
+  private statsStart = 0;
+  private stats = this.emptyStats();
+  private audioBytes = 0;
+  private videoBytes = 0;
+
+  constructor(
+    private target: SendTarget,
+    private onStats: (stats: SendStats) => void,
+    public options: SendQueueOptions = DEFAULT_SEND_QUEUE_OPTIONS
+  ) {}
+
+  get running() {
+    return this.flushTimer !== null;
+  }
+
+  setBudget(kbps: number) {
+    this.options = { ...this.options, budgetKbps: kbps };
+  }
+
+  enqueue(chunks: RealtimeChunk[]) {
+    if (!this.running) this.start();
+    chunks.forEach(chunk => {
+      if (chunk.mimeType.startsWith('audio/')) {
+        this.audio.push(chunk);
+        this.stats.audioChunks++;
+      } else if (chunk.mimeType.startsWith('image/')) {
+        // A newer frame supersedes one still waiting for budget
+        if (this.frame) this.stats.framesDropped++;
+        this.frame = chunk;
+      } else {
+        this.target.send(chunk);
+      }
+    });
+  }
+
+  /**
+   * Sends queued audio right away and then runs `send`, so control messages
+   * such as activity signals stay in order with the audio around them.
+   */
+  sendInOrder(send: () => void) {
+    if (this.audio.length) {
+      this.send(coalesceAudio(this.audio), 'audio');
+      this.audio = [];
+    }
+    send();
+  }
+
+  /**
+   * Stops sending and discards anything queued, e.g. when the session drops.
+   */
+  stop() {
+    if (this.flushTimer !== null) {
+      window.clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.audio = [];
+    this.frame = null;
+  }
+
+  private start() {
+    const now = performance.now();
+    this.lastRefill = now;
+    this.statsStart = now;
+    this.tokens = this.budgetBytesPerSecond();
+    this.flushTimer = window.setInterval(
+      () => this.flush(),
+      this.options.flushIntervalMs
+    );
+  }
+
+  private budgetBytesPerSecond() {
+    return (this.options.budgetKbps * 1000) / 8;
+  }
+
+  private refill(now: number) {
+    const perSecond = this.budgetBytesPerSecond();
+    this.tokens = Math.min(
+      perSecond,
+      this.tokens + (perSecond * (now - this.lastRefill)) / 1000
+    );
+    this.lastRefill = now;
+  }
+
+  private send(chunk: RealtimeChunk, kind: 'audio' | 'video') {
+    this.target.send(chunk);
+    this.tokens -= chunk.data.length;
+    if (kind === 'audio') {
+      this.audioBytes += chunk.data.length;
+      this.stats.audioMessages++;
+    } else {
+      this.videoBytes += chunk.data.length;
+      this.stats.framesSent++;
+    }
+  }
+
+  private flush() {
+    const now = performance.now();
+    this.refill(now);
+    const congested =
+      this.target.bufferedAmount() > this.options.maxBufferedBytes;
+
+    if (this.audio.length) {
+      if (congested) {
+        this.trimAudioBacklog();
+      } else {
+        this.send(coalesceAudio(this.audio), 'audio');
+        this.audio = [];
+      }
+    }
+
+    if (this.frame && !this.downsizing) {
+      const frame = this.frame;
+      const budgeted = this.options.budgetKbps > 0;
+      if (congested) {
+        this.frame = null;
+        this.stats.framesDropped++;
+      } else if (!budgeted || frame.data.length <= this.tokens) {
+        this.frame = null;
+        this.send(frame, 'video');
+        this.target.frameSent?.(frame);
+      } else if (frame.data.length * DOWNSIZE_RATIO <= this.tokens) {
+        this.frame = null;
+        this.sendDownsized(frame);
+      }
+      // Otherwise the frame waits for budget or a newer frame
+    }
+
+    if (now - this.statsStart >= this.options.statsIntervalMs) {
+      this.reportStats(now);
+    }
+  }
+
+  private trimAudioBacklog() {
+    let backlogMs = this.audio.reduce((ms, c) => ms + audioDurationMs(c), 0);
+    while (
+      this.audio.length > 1 &&
+      backlogMs > this.options.maxAudioBacklogMs
+    ) {
+      const dropped = audioDurationMs(this.audio.shift()!);
+      backlogMs -= dropped;
+      this.stats.audioDroppedMs += dropped;
+    }
+  }
+
+  private async sendDownsized(frame: RealtimeChunk) {
+    this.downsizing = true;
+    try {
+      const smaller = await downsizeFrame(frame, DOWNSIZE_SCALE);
+      if (!this.running) return;
+      if (smaller) {
+        this.send(smaller, 'video');
+        this.stats.framesDownsized++;
+        this.target.frameSent?.(frame);
+      } else {
+        this.stats.framesDropped++;
+      }
+    } catch (e) {
+      console.debug('Frame downsizing failed', e);
+      this.stats.framesDropped++;
+    } finally {
+      this.downsizing = false;
+    }
+  }
+
+  private reportStats(now: number) {
+    const intervalMs = now - this.statsStart;
+    const toKbps = (bytes: number) => (bytes * 8) / intervalMs;
+    this.onStats({
+      ...this.stats,
+      intervalMs,
+      audioKbps: toKbps(this.audioBytes),
+      videoKbps: toKbps(this.videoBytes),
+      audioDroppedMs: Math.round(this.stats.audioDroppedMs),
+      bufferedBytes: this.target.bufferedAmount(),
+    });
+    this.stats = this.emptyStats();
+    this.audioBytes = 0;
+    this.videoBytes = 0;
+    this.statsStart = now;
+  }
+
+  private emptyStats(): SendStats {
+    return {
+      intervalMs: 0,
+      audioKbps: 0,
+      videoKbps: 0,
+      audioChunks: 0,
+      audioMessages: 0,
+      audioDroppedMs: 0,
+      framesSent: 0,
+      framesDownsized: 0,
+      framesDropped: 0,
+      bufferedBytes: 0,
+    };
+  }
+}
+
+/**
+ * One-line summary of send stats for the log.
+ */
+export function formatSendStats(stats: SendStats) {
+  const parts = [
+    `audio ${Math.round(stats.audioKbps)} kbps (${stats.audioChunks} chunks in ${stats.audioMessages} messages)`,
+    `video ${Math.round(stats.videoKbps)} kbps (${stats.framesSent} frames)`,
+  ];
+  if (stats.framesDownsized) parts.push(`${stats.framesDownsized} downsized`);
+  if (stats.framesDropped) parts.push(`${stats.framesDropped} frames dropped`);
+  if (stats.audioDroppedMs) parts.push(`${stats.audioDroppedMs}ms audio dropped`);
+  if (stats.bufferedBytes) parts.push(`${stats.bufferedBytes} B buffered`);
+  return parts.join(', ');
+}
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import { openStorageDirectory } from './pcm-store';
+
+export type RealtimeChunk = { mimeType: string; data: string };
+
+/**
+ * One captured message. `t` is milliseconds since recording started.
+ */
+export type RecordedEvent =
+  | { t: number; direction: 'in'; message: LiveServerMessage }
+  | { t: number; direction: 'out'; chunks: RealtimeChunk[] };
+
+/**
+ * Contents of a downloadable session file.
+ */
+export interface SessionRecording {
+  version: 1;
+  model: string;
+  startedAt: string;
+  config?: LiveConnectConfig;
+  events: RecordedEvent[];
+}
+
+// Without the origin private file system events are kept in memory, up to
+// this many characters of JSON
+const MAX_MEMORY_LENGTH = 100 * 1024 * 1024;
+
+interface EventFile {
+  handle: FileSystemFileHandle;
+  writable: FileSystemWritableFileStream;
+}
+
+async function openEventFile(): Promise<EventFile | null> {
+  const directory = await openStorageDirectory('session-recordings');
+  if (!directory) return null;
+  try {
+    const handle = await directory.getFileHandle('events.json', {
+      create: true,
+    });
+    return { handle, writable: await handle.createWritable() };
+  } catch (e) {
+    console.warn('Could not create a file for the session recording', e);
+    return null;
+  }
+}
+
+/**
+ * Captures inbound server messages and outbound realtime chunks of a live
+ * session with their timing, so the session can be replayed offline.
+ *
+ * Events are streamed to the origin private file system as JSON, so long
+ * sessions are not held in memory.
+ */
+export class SessionRecorder {
+  private readonly start = performance.now();
+  private readonly header: Omit<SessionRecording, 'events'>;
+  private file = openEventFile();
+  private writing: Promise<void> = Promise.resolve();
+  // Serialized events when there is no file
+  private memory: string[] = [];
+  private memoryLength = 0;
+  private count = 0;
+  private full = false;
+  private ended = false;
+
+  /**
+   * @param onFull - Called once events can not be recorded any longer, when
+   * kept in memory or out of storage
+   */
+  constructor(
+    model: string,
+    config?: LiveConnectConfig,
+    private onFull: () => void = () => {}
+  ) {
+    this.header = {
+      version: 1,
+      model,
+      startedAt: new Date().toISOString(),
+      config,
+    };
+  }
+
+  private now() {
+    return Math.round(performance.now() - this.start);
+  }
+
+  get eventCount() {
+    return this.count;
+  }
+
+  recordInbound(message: LiveServerMessage) {
+    this.record({ t: this.now(), direction: 'in', message });
+  }
+
+  recordOutbound(chunks: RealtimeChunk[]) {
+    this.record({ t: this.now(), direction: 'out', chunks });
+  }
+
+  private record(event: RecordedEvent) {
+    if (this.full || this.ended) return;
+    const text = `${this.count++ ? ',' : ''}${JSON.stringify(event)}`;
+    this.writing = this.writing
+      .then(async () => {
+        if (this.full) return;
+        const file = await this.file;
+        if (file) {
+          await file.writable.write(text);
+        } else if (this.memoryLength + text.length > MAX_MEMORY_LENGTH) {
+          this.setFull();
+        } else {
+          this.memory.push(text);
+          this.memoryLength += text.length;
+        }
+      })
+      .catch(e => {
+        // Out of quota most likely, what was written so far is kept
+        console.warn('Could not store the session recording', e);
+        this.setFull();
+      });
+  }
+
+  private setFull() {
+    if (this.full) return;
+    this.full = true;
+    this.onFull();
+  }
+
+  /**
+   * Ends the recording and saves it as a JSON file through the browser's
+   * download flow.
+   */
+  async download() {
+    this.ended = true;
+    await this.writing;
+    const file = await this.file;
+    let events: BlobPart[] = this.memory;
+    if (file) {
+      await file.writable.close();
+      events = [await file.handle.getFile()];
+    }
+    // The header without its closing brace, followed by the events
+    const header = JSON.stringify(this.header).slice(0, -1);
+    const blob = new Blob([`${header},"events":[`, ...events, ']}'], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `live-session-${this.header.startedAt.replace(/[:.]/g, '-')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Reads a session file picked by the user.
+ */
+export async function loadSessionRecording(
+  file: File
+): Promise<SessionRecording> {
+  const recording = JSON.parse(await file.text());
+  if (recording?.version !== 1 || !Array.isArray(recording.events)) {
+    throw new Error(`${file.name} is not a session recording`);
+  }
+  return recording as SessionRecording;
+}
@@ -3,18 +3,46 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import { DEFAULT_LIVE_API_MODEL, DEFAULT_VOICE } from './constants';
 import {
   FunctionResponse,
   FunctionResponseScheduling,
   LiveServerToolCall,
+  UsageMetadata,
 } from '@google/genai';
+import { addUsageMetadata, EMPTY_USAGE, TokenUsage } from './usage';
+import { LatencyMetric } from './latency-tracker';
+import { ChannelStatus } from './interpretation-channel';
+import { DEFAULT_SEND_QUEUE_OPTIONS, SendStats } from './send-queue';
+import { ActivityMode, StreamingLog } from './genai-live-client';
+import {
+  DEFAULT_FRAME_CAPTURE_OPTIONS,
+  DEFAULT_MICROPHONE_OPTIONS,
+  DEFAULT_VAD_OPTIONS,
+  FrameStats,
+} from './audio-recorder';
+import { DEFAULT_CATCH_UP_OPTIONS } from './audio-streamer';
+import { DEFAULT_DUCKING_OPTIONS } from './ducking';
+import { DEFAULT_VOICE_PROCESSING, VoicePreset } from './voice-processing';
+import { DEFAULT_PAD_OPTIONS, PadPreset } from './pad-engine';
+import { DEFAULT_OUTPUT_DEVICE, OutputRouting } from './output-devices';
 
 export type Template = 'eburon-tts';
 export type Theme = 'light' | 'dark';
 export type VoiceStyle = 'natural' | 'breathy' | 'dramatic';
+// voice: dubbed interpreter voice, subtitles: silent translated captions
+export type OutputMode = 'voice' | 'subtitles';
+// mic: microphone, tab: a shared tab or screen with its audio, both: the two mixed
+export type InputMode = 'mic' | 'tab' | 'both';
+
+// An extra target language interpreted alongside the main one
+export interface LanguageChannel {
+  language: string;
+  voice: string;
+}
 
-const generateSystemPrompt = (language: string, mediaTitle: string = '') => `
+export const generateSystemPrompt = (language: string, mediaTitle: string = '') => `
 ROLE: Simultaneous Interpreter & Vision-Aware Narrator
 TARGET LANGUAGE: [${language || 'Auto-Detect (Match Context)'}]
 INPUT SOURCE: Audio-Visual Stream (Screen Capture + Audio)
@@ -46,22 +74,70 @@ export const useSettings = create<{
   model: string;
   voice: string;
   voiceStyle: VoiceStyle;
+  voicePreset: VoicePreset;
+  targetLufs: number; // Loudness the interpreter voice is normalized to
   language: string;
   mediaUrl: string;
   mediaTitle: string;
   backgroundPadEnabled: boolean;
   backgroundPadVolume: number;
+  padPreset: PadPreset;
+  padCutoffHz: number;
+  padDetuneCents: number;
+  padSidechainDepthDb: number; // 0 ducks the pad with the source instead
   sourceVolume: number; // 0-100 for YouTube IFrame
+  duckingEnabled: boolean;
+  duckLevel: number; // 0-100, share of sourceVolume while the interpreter speaks
+  duckReleaseMs: number;
+  additionalLanguages: LanguageChannel[];
+  listenLanguage: string; // '' plays the main language
+  uploadBudgetKbps: number; // Per session, 0 is unlimited
+  maxFramesPerMinute: number; // Screen frames sent, 0 is unlimited
+  activityMode: ActivityMode;
+  outputMode: OutputMode;
+  inputMode: InputMode | ''; // '' until chosen
+  tabInputGain: number; // 0-200, percent of the captured tab audio in the mix
+  micInputGain: number; // 0-200, percent of the microphone in the mix
+  vadThresholdDb: number;
+  vadHangoverMs: number;
+  dubStems: boolean; // Export source, interpreter and pad separately
+  dubIncludeSource: boolean;
+  maxOutputLagMs: number; // Interpreter audio lag before catching up
+  catchUpRate: number;
   setSystemPrompt: (prompt: string) => void;
   setModel: (model: string) => void;
   setVoice: (voice: string) => void;
   setVoiceStyle: (style: VoiceStyle) => void;
+  setVoicePreset: (preset: VoicePreset) => void;
+  setTargetLufs: (lufs: number) => void;
   setLanguage: (language: string) => void;
   setMediaUrl: (url: string) => void;
   setMediaTitle: (title: string) => void;
   setBackgroundPadEnabled: (enabled: boolean) => void;
   setBackgroundPadVolume: (volume: number) => void;
+  setPadPreset: (preset: PadPreset) => void;
+  setPadCutoffHz: (hz: number) => void;
+  setPadDetuneCents: (cents: number) => void;
+  setPadSidechainDepthDb: (db: number) => void;
   setSourceVolume: (volume: number) => void;
+  setDuckingEnabled: (enabled: boolean) => void;
+  setDuckLevel: (level: number) => void;
+  setDuckReleaseMs: (ms: number) => void;
+  setAdditionalLanguages: (channels: LanguageChannel[]) => void;
+  setListenLanguage: (language: string) => void;
+  setUploadBudgetKbps: (kbps: number) => void;
+  setMaxFramesPerMinute: (frames: number) => void;
+  setActivityMode: (mode: ActivityMode) => void;
+  setOutputMode: (mode: OutputMode) => void;
+  setInputMode: (mode: InputMode | '') => void;
+  setTabInputGain: (gain: number) => void;
+  setMicInputGain: (gain: number) => void;
+  setVadThresholdDb: (db: number) => void;
+  setVadHangoverMs: (ms: number) => void;
+  setDubStems: (stems: boolean) => void;
+  setDubIncludeSource: (include: boolean) => void;
+  setMaxOutputLagMs: (ms: number) => void;
+  setCatchUpRate: (rate: number) => void;
 }>(set => ({
   language: '',
   mediaTitle: '',
@@ -69,14 +145,40 @@ export const useSettings = create<{
   model: DEFAULT_LIVE_API_MODEL,
   voice: DEFAULT_VOICE,
   voiceStyle: 'breathy',
+  voicePreset: DEFAULT_VOICE_PROCESSING.preset,
+  targetLufs: DEFAULT_VOICE_PROCESSING.targetLufs,
   mediaUrl: 'https://www.youtube.com/embed/jfKfPfyJRdk?si=Fv6Xn-Gj8HqQo-fM', 
   backgroundPadEnabled: false,
   backgroundPadVolume: 0.2,
+  padPreset: DEFAULT_PAD_OPTIONS.preset,
+  padCutoffHz: DEFAULT_PAD_OPTIONS.cutoffHz,
+  padDetuneCents: DEFAULT_PAD_OPTIONS.detuneCents,
+  padSidechainDepthDb: DEFAULT_PAD_OPTIONS.sidechainDepthDb,
   sourceVolume: 50,
+  duckingEnabled: DEFAULT_DUCKING_OPTIONS.enabled,
+  duckLevel: DEFAULT_DUCKING_OPTIONS.level * 100,
+  duckReleaseMs: DEFAULT_DUCKING_OPTIONS.releaseMs,
+  additionalLanguages: [],
+  listenLanguage: '',
+  uploadBudgetKbps: DEFAULT_SEND_QUEUE_OPTIONS.budgetKbps,
+  maxFramesPerMinute: DEFAULT_FRAME_CAPTURE_OPTIONS.maxFramesPerMinute,
+  activityMode: 'auto',
+  outputMode: 'voice',
+  inputMode: '',
+  tabInputGain: 100,
+  micInputGain: 100,
+  vadThresholdDb: DEFAULT_VAD_OPTIONS.thresholdDb,
+  vadHangoverMs: DEFAULT_VAD_OPTIONS.hangoverMs,
+  dubStems: false,
+  dubIncludeSource: true,
+  maxOutputLagMs: DEFAULT_CATCH_UP_OPTIONS.maxLagMs,
+  catchUpRate: DEFAULT_CATCH_UP_OPTIONS.catchUpRate,
   setSystemPrompt: prompt => set({ systemPrompt: prompt }),
   setModel: model => set({ model }),
   setVoice: voice => set({ voice }),
   setVoiceStyle: voiceStyle => set({ voiceStyle }),
+  setVoicePreset: preset => set({ voicePreset: preset }),
+  setTargetLufs: lufs => set({ targetLufs: lufs }),
   setLanguage: language => set(state => ({ 
     language, 
     systemPrompt: generateSystemPrompt(language, state.mediaTitle) 
@@ -88,21 +190,123 @@ export const useSettings = create<{
   })),
   setBackgroundPadEnabled: enabled => set({ backgroundPadEnabled: enabled }),
   setBackgroundPadVolume: volume => set({ backgroundPadVolume: volume }),
+  setPadPreset: preset => set({ padPreset: preset }),
+  setPadCutoffHz: hz => set({ padCutoffHz: hz }),
+  setPadDetuneCents: cents => set({ padDetuneCents: cents }),
+  setPadSidechainDepthDb: db => set({ padSidechainDepthDb: db }),
   setSourceVolume: volume => set({ sourceVolume: volume }),
+  setDuckingEnabled: enabled => set({ duckingEnabled: enabled }),
+  setDuckLevel: level => set({ duckLevel: level }),
+  setDuckReleaseMs: ms => set({ duckReleaseMs: ms }),
+  setAdditionalLanguages: channels => set({ additionalLanguages: channels }),
+  setListenLanguage: language => set({ listenLanguage: language }),
+  setUploadBudgetKbps: kbps => set({ uploadBudgetKbps: kbps }),
+  setMaxFramesPerMinute: frames => set({ maxFramesPerMinute: frames }),
+  setActivityMode: mode => set({ activityMode: mode }),
+  setOutputMode: mode => set({ outputMode: mode }),
+  setInputMode: mode => set({ inputMode: mode }),
+  setTabInputGain: gain => set({ tabInputGain: gain }),
+  setMicInputGain: gain => set({ micInputGain: gain }),
+  setVadThresholdDb: db => set({ vadThresholdDb: db }),
+  setVadHangoverMs: ms => set({ vadHangoverMs: ms }),
+  setDubStems: stems => set({ dubStems: stems }),
+  setDubIncludeSource: include => set({ dubIncludeSource: include }),
+  setMaxOutputLagMs: ms => set({ maxOutputLagMs: ms }),
+  setCatchUpRate: rate => set({ catchUpRate: rate }),
 }));
 
+/**
+ * Output routing, kept across page loads since it depends on the booth setup
+ */
+export const useOutputRouting = create<{
+  routing: OutputRouting;
+  voiceDeviceId: string;
+  padDeviceId: string;
+  // The devices could not be used and play on the default instead, not kept
+  voiceDeviceUnavailable: boolean;
+  padDeviceUnavailable: boolean;
+  setRouting: (routing: OutputRouting) => void;
+  setVoiceDeviceId: (deviceId: string) => void;
+  setPadDeviceId: (deviceId: string) => void;
+  setDevicesUnavailable: (voice: boolean, pad: boolean) => void;
+}>()(
+  persist(
+    set => ({
+      routing: 'mixed',
+      voiceDeviceId: DEFAULT_OUTPUT_DEVICE,
+      padDeviceId: DEFAULT_OUTPUT_DEVICE,
+      voiceDeviceUnavailable: false,
+      padDeviceUnavailable: false,
+      setRouting: routing => set({ routing }),
+      setVoiceDeviceId: deviceId => set({ voiceDeviceId: deviceId }),
+      setPadDeviceId: deviceId => set({ padDeviceId: deviceId }),
+      setDevicesUnavailable: (voice, pad) =>
+        set({ voiceDeviceUnavailable: voice, padDeviceUnavailable: pad }),
+    }),
+    {
+      name: 'output-routing',
+      partialize: ({ routing, voiceDeviceId, padDeviceId }) => ({
+        routing,
+        voiceDeviceId,
+        padDeviceId,
+      }),
+    }
+  )
+);
+
+/**
+ * Microphone, kept across page loads like the output routing
+ */
+export const useMicrophoneSettings = create<{
+  deviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  setDeviceId: (deviceId: string) => void;
+  setEchoCancellation: (enabled: boolean) => void;
+  setNoiseSuppression: (enabled: boolean) => void;
+  setAutoGainControl: (enabled: boolean) => void;
+}>()(
+  persist(
+    set => ({
+      ...DEFAULT_MICROPHONE_OPTIONS,
+      setDeviceId: deviceId => set({ deviceId }),
+      setEchoCancellation: enabled => set({ echoCancellation: enabled }),
+      setNoiseSuppression: enabled => set({ noiseSuppression: enabled }),
+      setAutoGainControl: enabled => set({ autoGainControl: enabled }),
+    }),
+    { name: 'microphone' }
+  )
+);
+
 /**
  * UI
  */
 export const useUI = create<{
   isSidebarOpen: boolean;
+  isLogInspectorOpen: boolean;
+  // Visualizer shows the source spectrum next to the interpreter's
+  isVisualizerDual: boolean;
+  // The input select is opened, and the session connects once one is chosen
+  isInputPickerOpen: boolean;
   theme: Theme;
   toggleSidebar: () => void;
+  toggleLogInspector: () => void;
+  toggleVisualizerDual: () => void;
+  setInputPickerOpen: (open: boolean) => void;
   toggleTheme: () => void;
 }>(set => ({
   isSidebarOpen: false, 
+  isLogInspectorOpen: false,
+  isVisualizerDual: false,
+  isInputPickerOpen: false,
   theme: 'dark',
   toggleSidebar: () => set(state => ({ isSidebarOpen: !state.isSidebarOpen })),
+  toggleLogInspector: () =>
+    set(state => ({ isLogInspectorOpen: !state.isLogInspectorOpen })),
+  toggleVisualizerDual: () =>
+    set(state => ({ isVisualizerDual: !state.isVisualizerDual })),
+  setInputPickerOpen: open => set({ isInputPickerOpen: open }),
   toggleTheme: () => set(state => ({ theme: state.theme === 'light' ? 'dark' : 'light' })),
 }));
 
@@ -226,4 +430,197 @@ export const useLogStore = create<{
     });
   },
   clearTurns: () => set({ turns: [] }),
-}));
\ No newline at end of file
+}));
+
+/**
+ * Usage
+ */
+export const useUsageStore = create<{
+  usage: TokenUsage;
+  // True between the start and end of a session
+  active: boolean;
+  startSession: () => void;
+  addUsage: (metadata: UsageMetadata) => void;
+  endSession: () => void;
+}>(set => ({
+  usage: EMPTY_USAGE,
+  active: false,
+  startSession: () => set({ usage: EMPTY_USAGE, active: true }),
+  addUsage: (metadata: UsageMetadata) =>
+    set(state => ({ usage: addUsageMetadata(state.usage, metadata) })),
+  endSession: () => set({ active: false }),
+}));
+
+/**
+ * Latency
+ */
+// Number of recent samples percentiles are computed over
+const LATENCY_WINDOW = 50;
+
+export const useLatencyStore = create<{
+  samples: Record<LatencyMetric, number[]>;
+  addSample: (metric: LatencyMetric, ms: number) => void;
+  reset: () => void;
+}>(set => ({
+  samples: { transcription: [], response: [], playback: [] },
+  addSample: (metric: LatencyMetric, ms: number) =>
+    set(state => ({
+      samples: {
+        ...state.samples,
+        [metric]: [...state.samples[metric], ms].slice(-LATENCY_WINDOW),
+      },
+    })),
+  reset: () =>
+    set({ samples: { transcription: [], response: [], playback: [] } }),
+}));
+
+/**
+ * Streaming logs
+ */
+// Entries kept for the log inspector, the oldest are dropped first
+const STREAMING_LOG_LIMIT = 1000;
+
+function isRepeat(last: StreamingLog, log: StreamingLog) {
+  if (last.type !== log.type) return false;
+  if (typeof last.message === 'string' || typeof log.message === 'string') {
+    return last.message === log.message;
+  }
+  return JSON.stringify(last.message) === JSON.stringify(log.message);
+}
+
+// Entries are numbered as they are added, a folded repeat keeps its number
+export type NumberedLog = StreamingLog & { id: number };
+
+let nextLogId = 0;
+
+export const useStreamingLogStore = create<{
+  logs: NumberedLog[];
+  addLog: (log: StreamingLog) => void;
+  clearLogs: () => void;
+}>(set => ({
+  logs: [],
+  addLog: (log: StreamingLog) =>
+    set(state => {
+      const last = state.logs[state.logs.length - 1];
+      // Consecutive repeats are folded into one entry with a count
+      if (last && isRepeat(last, log)) {
+        return {
+          logs: [
+            ...state.logs.slice(0, -1),
+            { ...last, date: log.date, count: (last.count || 1) + 1 },
+          ],
+        };
+      }
+      return {
+        logs: [...state.logs, { ...log, id: nextLogId++ }].slice(
+          -STREAMING_LOG_LIMIT
+        ),
+      };
+    }),
+  clearLogs: () => set({ logs: [] }),
+}));
+
+/**
+ * Upload
+ */
+export const useSendStatsStore = create<{
+  stats: SendStats | null;
+  frames: FrameStats | null;
+  setStats: (stats: SendStats | null) => void;
+  setFrames: (frames: FrameStats | null) => void;
+}>(set => ({
+  stats: null,
+  frames: null,
+  setStats: (stats: SendStats | null) => set({ stats }),
+  setFrames: (frames: FrameStats | null) => set({ frames }),
+}));
+
+/**
+ * Interpretation channels
+ */
+// Characters of transcript kept per channel
+const CHANNEL_TRANSCRIPT_CHARS = 2000;
+
+export interface ChannelState {
+  status: ChannelStatus;
+  transcript: string;
+}
+
+export const useChannelsStore = create<{
+  channels: Record<string, ChannelState>;
+  setStatus: (language: string, status: ChannelStatus) => void;
+  appendTranscript: (language: string, text: string) => void;
+  clear: () => void;
+}>(set => ({
+  channels: {},
+  setStatus: (language: string, status: ChannelStatus) =>
+    set(state => ({
+      channels: {
+        ...state.channels,
+        [language]: {
+          transcript: state.channels[language]?.transcript || '',
+          status,
+        },
+      },
+    })),
+  appendTranscript: (language: string, text: string) =>
+    set(state => {
+      const channel = state.channels[language];
+      if (!channel) return state;
+      return {
+        channels: {
+          ...state.channels,
+          [language]: {
+            ...channel,
+            transcript: (channel.transcript + text).slice(
+              -CHANNEL_TRANSCRIPT_CHARS
+            ),
+          },
+        },
+      };
+    }),
+  clear: () => set({ channels: {} }),
+}));
+
+/**
+ * API key prompt, shown when no token broker is available
+ */
+export const useApiKeyPrompt = create<{
+  open: boolean;
+  pending: {
+    resolve: (key: string) => void;
+    reject: (e: Error) => void;
+  } | null;
+  requestKey: () => Promise<string>;
+  submitKey: (key: string) => void;
+  cancel: () => void;
+}>((set, get) => ({
+  open: false,
+  pending: null,
+  requestKey: () =>
+    new Promise<string>((resolve, reject) => {
+      // A second request replaces the first, both get the same key
+      const previous = get().pending;
+      set({
+        open: true,
+        pending: {
+          resolve: key => {
+            previous?.resolve(key);
+            resolve(key);
+          },
+          reject: e => {
+            previous?.reject(e);
+            reject(e);
+          },
+        },
+      });
+    }),
+  submitKey: (key: string) => {
+    get().pending?.resolve(key);
+    set({ open: false, pending: null });
+  },
+  cancel: () => {
+    get().pending?.reject(new Error('No API key was entered.'));
+    set({ open: false, pending: null });
+  },
+}));
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MediaModality, ModalityTokenCount, UsageMetadata } from '@google/genai';
+
+/**
+ * Token counts aggregated over a session.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  inputTextTokens: number;
+  inputAudioTokens: number;
+  inputVideoTokens: number;
+  outputTextTokens: number;
+  outputAudioTokens: number;
+}
+
+export const EMPTY_USAGE: TokenUsage = {
+  promptTokens: 0,
+  responseTokens: 0,
+  totalTokens: 0,
+  inputTextTokens: 0,
+  inputAudioTokens: 0,
+  inputVideoTokens: 0,
+  outputTextTokens: 0,
+  outputAudioTokens: 0,
+};
+
+/**
+ * Estimated USD price per 1M tokens of the native audio Live model.
+ * Only used for the on-screen estimate, billing remains authoritative.
+ */
+export const LIVE_TOKEN_PRICING = {
+  inputText: 0.5,
+  inputAudioVideo: 3,
+  outputText: 2,
+  outputAudio: 12,
+};
+
+function countFor(
+  details: ModalityTokenCount[] | undefined,
+  ...modalities: MediaModality[]
+) {
+  return (details || [])
+    .filter(d => d.modality && modalities.includes(d.modality))
+    .reduce((sum, d) => sum + (d.tokenCount || 0), 0);
+}
+
+/**
+ * Adds the counts reported by one server message to a running total.
+ */
+export function addUsageMetadata(
+  usage: TokenUsage,
+  metadata: UsageMetadata
+): TokenUsage {
+  const prompt = metadata.promptTokensDetails;
+  const response = metadata.responseTokensDetails;
+  return {
+    promptTokens: usage.promptTokens + (metadata.promptTokenCount || 0),
+    responseTokens: usage.responseTokens + (metadata.responseTokenCount || 0),
+    totalTokens: usage.totalTokens + (metadata.totalTokenCount || 0),
+    inputTextTokens:
+      usage.inputTextTokens + countFor(prompt, MediaModality.TEXT),
+    inputAudioTokens:
+      usage.inputAudioTokens + countFor(prompt, MediaModality.AUDIO),
+    inputVideoTokens:
+      usage.inputVideoTokens +
+      countFor(prompt, MediaModality.VIDEO, MediaModality.IMAGE),
+    outputTextTokens:
+      usage.outputTextTokens + countFor(response, MediaModality.TEXT),
+    outputAudioTokens:
+      usage.outputAudioTokens + countFor(response, MediaModality.AUDIO),
+  };
+}
+
+/**
+ * Estimated cost in USD of the given usage.
+ */
+export function estimateCost(usage: TokenUsage) {
+  const p = LIVE_TOKEN_PRICING;
+  return (
+    (usage.inputTextTokens * p.inputText +
+      (usage.inputAudioTokens + usage.inputVideoTokens) * p.inputAudioVideo +
+      usage.outputTextTokens * p.outputText +
+      usage.outputAudioTokens * p.outputAudio) /
+    1_000_000
+  );
+}
+
+export function formatTokens(count: number) {
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : `${count}`;
+}
+
+export function formatCost(usd: number) {
+  return `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createWorketFromSrc } from './audioworklet-registry';
+import LoudnessMeterWorklet from './worklets/loudness-meter';
+
+const METER_WORKLET_NAME = 'loudness-meter';
+
+// The meter module is added once per context
+const meterModules: WeakMap<BaseAudioContext, Promise<void>> = new WeakMap();
+
+function loadMeterModule(context: BaseAudioContext) {
+  let loaded = meterModules.get(context);
+  if (!loaded) {
+    loaded = context.audioWorklet.addModule(
+      createWorketFromSrc(METER_WORKLET_NAME, LoudnessMeterWorklet)
+    );
+    meterModules.set(context, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * broadcast: present and evenly compressed, booth: bright and dry for
+ * headphones, flat: level normalization only
+ */
+export type VoicePreset = 'broadcast' | 'booth' | 'flat';
+
+export interface VoiceProcessingOptions {
+  preset: VoicePreset;
+  // Short-term loudness the voice is normalized to
+  targetLufs: number;
+}
+
+export const DEFAULT_VOICE_PROCESSING: VoiceProcessingOptions = {
+  preset: 'broadcast',
+  targetLufs: -16,
+};
+
+interface PresetParams {
+  highPassHz: number;
+  lowShelfDb: number; // at 200 Hz
+  presenceDb: number; // at presenceHz
+  presenceHz: number;
+  highShelfDb: number; // at 8 kHz
+  // Compressor, a ratio of 1 leaves it out
+  thresholdDb: number;
+  ratio: number;
+  // Level restored after compression
+  makeupDb: number;
+}
+
+const PRESETS: Record<VoicePreset, PresetParams> = {
+  broadcast: {
+    highPassHz: 80,
+    lowShelfDb: -2,
+    presenceDb: 3,
+    presenceHz: 3000,
+    highShelfDb: 2,
+    thresholdDb: -24,
+    ratio: 4,
+    makeupDb: 4,
+  },
+  booth: {
+    highPassHz: 120,
+    lowShelfDb: -4,
+    presenceDb: 4,
+    presenceHz: 2500,
+    highShelfDb: -2,
+    thresholdDb: -20,
+    ratio: 3,
+    makeupDb: 3,
+  },
+  flat: {
+    highPassHz: 20,
+    lowShelfDb: 0,
+    presenceDb: 0,
+    presenceHz: 3000,
+    highShelfDb: 0,
+    thresholdDb: 0,
+    ratio: 1,
+    makeupDb: 0,
+  },
+};
+
+// Normalization never changes the voice by more than this
+const MAX_NORMALIZE_DB = 12;
+
+/**
+ * Loudness of the voice as measured before normalization, and the gain
+ * applied to bring it to the target.
+ */
+export interface VoiceLoudness {
+  lufs: number | null;
+  gainDb: number;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Evens out the interpreter voice: EQ, compression, then normalization to a
+ * loudness target.
+ *
+ * input => high-pass => low shelf => presence => high shelf => compressor
+ * => makeup => normalize => output
+ *
+ * The loudness is metered after the makeup gain, so nothing but the
+ * normalizer changes the level after it. Its short-term reading sets the
+ * normalization gain directly, the meter never hears its own correction.
+ */
+export class VoiceProcessor {
+  public readonly input: GainNode;
+  public readonly output: GainNode;
+  private highPass: BiquadFilterNode;
+  private lowShelf: BiquadFilterNode;
+  private presence: BiquadFilterNode;
+  private highShelf: BiquadFilterNode;
+  private compressor: DynamicsCompressorNode;
+  private makeup: GainNode;
+  private normalizer: GainNode;
+  private meter: Promise<AudioWorkletNode>;
+  private gainDb = 0;
+
+  constructor(
+    private context: AudioContext,
+    private onLoudness: (loudness: VoiceLoudness) => void = () => {},
+    private options: VoiceProcessingOptions = DEFAULT_VOICE_PROCESSING
+  ) {
+    this.input = context.createGain();
+    this.highPass = context.createBiquadFilter();
+    this.highPass.type = 'highpass';
+    this.lowShelf = context.createBiquadFilter();
+    this.lowShelf.type = 'lowshelf';
+    this.lowShelf.frequency.value = 200;
+    this.presence = context.createBiquadFilter();
+    this.presence.type = 'peaking';
+    this.presence.Q.value = 1;
+    this.highShelf = context.createBiquadFilter();
+    this.highShelf.type = 'highshelf';
+    this.highShelf.frequency.value = 8000;
+    this.compressor = context.createDynamicsCompressor();
+    this.compressor.knee.value = 6;
+    this.compressor.attack.value = 0.005;
+    this.compressor.release.value = 0.15;
+    this.makeup = context.createGain();
+    this.normalizer = context.createGain();
+    this.output = context.createGain();
+
+    this.input
+      .connect(this.highPass)
+      .connect(this.lowShelf)
+      .connect(this.presence)
+      .connect(this.highShelf)
+      .connect(this.compressor)
+      .connect(this.makeup)
+      .connect(this.normalizer)
+      .connect(this.output);
+    this.applyPreset();
+    this.meter = this.createMeter();
+  }
+
+  setOptions(options: Partial<VoiceProcessingOptions>) {
+    this.options = { ...this.options, ...options };
+    this.applyPreset();
+  }
+
+  dispose() {
+    this.meter
+      .then(node => {
+        node.port.close();
+        node.disconnect();
+      })
+      .catch(() => {});
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+
+  private async createMeter() {
+    await loadMeterModule(this.context);
+    const node = new AudioWorkletNode(this.context, METER_WORKLET_NAME, {
+      numberOfOutputs: 0,
+    });
+    node.port.onmessage = (ev: MessageEvent) => {
+      if (ev.data.event === 'loudness') this.normalize(ev.data.lufs);
+    };
+    this.makeup.connect(node);
+    return node;
+  }
+
+  // Silence keeps the last gain, the next turn starts at the level the
+  // previous one ended with
+  private normalize(lufs: number | null) {
+    if (lufs !== null) {
+      const gainDb = Math.max(
+        -MAX_NORMALIZE_DB,
+        Math.min(MAX_NORMALIZE_DB, this.options.targetLufs - lufs)
+      );
+      if (Math.abs(gainDb - this.gainDb) >= 0.1) {
+        this.gainDb = gainDb;
+        this.normalizer.gain.setTargetAtTime(
+          dbToGain(gainDb),
+          this.context.currentTime,
+          0.4
+        );
+      }
+    }
+    this.onLoudness({ lufs, gainDb: this.gainDb });
+  }
+
+  private applyPreset() {
+    const params = PRESETS[this.options.preset];
+    const now = this.context.currentTime;
+    const set = (param: AudioParam, value: number) =>
+      param.setTargetAtTime(value, now, 0.05);
+    set(this.highPass.frequency, params.highPassHz);
+    set(this.lowShelf.gain, params.lowShelfDb);
+    set(this.presence.frequency, params.presenceHz);
+    set(this.presence.gain, params.presenceDb);
+    set(this.highShelf.gain, params.highShelfDb);
+    set(this.compressor.threshold, params.thresholdDb);
+    set(this.compressor.ratio, params.ratio);
+    set(this.makeup.gain, dbToGain(params.makeupDb));
+  }
+}
@@ -18,6 +18,13 @@
  * limitations under the License.
  */
 
+/**
+ * Turns captured audio into 16-bit mono PCM at `processorOptions.sampleRate`
+ * (16kHz by default), whatever rate and channel count the context and the
+ * source run at. Channels are averaged, then resampled with a windowed sinc
+ * low-pass so that downsampling does not alias. Posts
+ * `{ event: 'chunk', data: { int16arrayBuffer } }`.
+ */
 const AudioRecordingWorklet = `
 class AudioProcessingWorklet extends AudioWorkletProcessor {
 
@@ -28,9 +35,35 @@ class AudioProcessingWorklet extends AudioWorkletProcessor {
   // current write index
   bufferWriteIndex = 0;
 
-  constructor() {
+  constructor(options) {
     super();
     this.hasAudio = false;
+
+    const { sampleRate: outputRate = 16000 } = options.processorOptions || {};
+    // Input samples per output sample
+    this.ratio = sampleRate / outputRate;
+
+    // Low-pass below the lower of the two Nyquist frequencies, with
+    // 8 zero crossings of the sinc on either side
+    this.cutoff = Math.min(1, 1 / this.ratio) * 0.95;
+    this.halfWidth = Math.ceil(8 / this.cutoff);
+    this.kernelResolution = 64;
+    this.kernel = new Float32Array(this.halfWidth * this.kernelResolution + 2);
+    for (let i = 0; i < this.kernel.length; i++) {
+      const d = i / this.kernelResolution;
+      if (d > this.halfWidth) break;
+      const x = Math.PI * this.cutoff * d;
+      const sinc = d === 0 ? 1 : Math.sin(x) / x;
+      const w = Math.PI * d / this.halfWidth;
+      const blackman = 0.42 + 0.5 * Math.cos(w) + 0.08 * Math.cos(2 * w);
+      this.kernel[i] = this.cutoff * sinc * blackman;
+    }
+
+    // Downmixed input not yet resampled, and the position of the next
+    // output sample in it
+    this.input = new Float32Array(4096);
+    this.inputLength = 0;
+    this.position = 0;
   }
 
   /**
@@ -38,13 +71,78 @@ class AudioProcessingWorklet extends AudioWorkletProcessor {
    * @param outputs Float32Array[][]
    */
   process(inputs) {
-    if (inputs[0].length) {
-      const channel0 = inputs[0][0];
-      this.processChunk(channel0);
+    const channels = inputs[0];
+    if (channels.length) {
+      this.appendDownmix(channels);
+      this.resample();
     }
     return true;
   }
 
+  appendDownmix(channels) {
+    const length = channels[0].length;
+    if (this.inputLength + length > this.input.length) {
+      const grown = new Float32Array((this.inputLength + length) * 2);
+      grown.set(this.input.subarray(0, this.inputLength));
+      this.input = grown;
+    }
+    const gain = 1 / channels.length;
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+      this.input[this.inputLength + i] = sum * gain;
+    }
+    this.inputLength += length;
+  }
+
+  tap(d) {
+    const index = Math.abs(d) * this.kernelResolution;
+    const i = Math.floor(index);
+    const f = index - i;
+    return this.kernel[i] + (this.kernel[i + 1] - this.kernel[i]) * f;
+  }
+
+  resample() {
+    const input = this.input;
+    if (this.ratio === 1) {
+      for (let i = 0; i < this.inputLength; i++) this.write(input[i]);
+      this.inputLength = 0;
+      return;
+    }
+
+    // Each output sample needs halfWidth input samples on either side
+    while (this.position + this.halfWidth < this.inputLength) {
+      const center = this.position;
+      const first = Math.max(0, Math.ceil(center - this.halfWidth));
+      const last = Math.floor(center + this.halfWidth);
+      let sum = 0;
+      for (let n = first; n <= last; n++) {
+        sum += input[n] * this.tap(center - n);
+      }
+      this.write(sum);
+      this.position += this.ratio;
+    }
+
+    // Drop input no longer in reach of the kernel
+    const consumed = Math.max(0, Math.floor(this.position - this.halfWidth));
+    if (consumed > 0) {
+      input.copyWithin(0, consumed, this.inputLength);
+      this.inputLength -= consumed;
+      this.position -= consumed;
+    }
+  }
+
+  write(sample) {
+    // convert float32 -1 to 1 to int16 -32768 to 32767, clipping overs
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.buffer[this.bufferWriteIndex++] = Math.round(
+      clamped < 0 ? clamped * 32768 : clamped * 32767
+    );
+    if (this.bufferWriteIndex >= this.buffer.length) {
+      this.sendAndClearBuffer();
+    }
+  }
+
   sendAndClearBuffer(){
     this.port.postMessage({
       event: "chunk",
@@ -54,23 +152,6 @@ class AudioProcessingWorklet extends AudioWorkletProcessor {
     });
     this.bufferWriteIndex = 0;
   }
-
-  processChunk(float32Array) {
-    const l = float32Array.length;
-    
-    for (let i = 0; i < l; i++) {
-      // convert float32 -1 to 1 to int16 -32768 to 32767
-      const int16Value = float32Array[i] * 32768;
-      this.buffer[this.bufferWriteIndex++] = int16Value;
-      if(this.bufferWriteIndex >= this.buffer.length) {
-        this.sendAndClearBuffer();
-      }
-    }
-
-    if(this.bufferWriteIndex >= this.buffer.length) {
-      this.sendAndClearBuffer();
-    }
-  }
 }
 `;
 
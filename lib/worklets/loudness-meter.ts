@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Short-term loudness of its input after ITU-R BS.1770: K-weighted mean
+ * square over the last 3 seconds, in LUFS. The input is measured as one
+ * channel. Blocks of 100ms quieter than -70 LUFS are left out, so pauses
+ * between turns do not pull the reading down.
+ *
+ * Posts `{ event: 'loudness', lufs }` every 100ms, `lufs` being null while
+ * the whole window is silent.
+ */
+const LoudnessMeterWorklet = `
+class LoudnessMeterProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    // K-weighting: a high shelf for the head followed by a high-pass
+    this.shelf = this.highShelf();
+    this.highPass = this.rlbHighPass();
+    this.blockLength = Math.round(sampleRate / 10);
+    this.blockSum = 0;
+    this.blockFrames = 0;
+    // Mean square of the last 30 blocks, null for gated blocks
+    this.blocks = [];
+  }
+
+  highShelf() {
+    const f0 = 1681.974450955533;
+    const gainDb = 3.999843853973347;
+    const q = 0.7071752369554196;
+    const k = Math.tan((Math.PI * f0) / sampleRate);
+    const vh = Math.pow(10, gainDb / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const a0 = 1 + k / q + k * k;
+    return this.biquad(
+      [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+      [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+    );
+  }
+
+  rlbHighPass() {
+    const f0 = 38.13547087602444;
+    const q = 0.5003270373238773;
+    const k = Math.tan((Math.PI * f0) / sampleRate);
+    const a0 = 1 + k / q + k * k;
+    return this.biquad([1, -2, 1], [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]);
+  }
+
+  biquad(b, a) {
+    return { b, a, x1: 0, x2: 0, y1: 0, y2: 0 };
+  }
+
+  filter(f, x) {
+    const y = f.b[0] * x + f.b[1] * f.x1 + f.b[2] * f.x2 - f.a[0] * f.y1 - f.a[1] * f.y2;
+    f.x2 = f.x1;
+    f.x1 = x;
+    f.y2 = f.y1;
+    f.y1 = y;
+    return y;
+  }
+
+  process(inputs) {
+    const samples = inputs[0][0];
+    const length = samples ? samples.length : 128;
+    for (let i = 0; i < length; i++) {
+      const x = samples ? samples[i] : 0;
+      const y = this.filter(this.highPass, this.filter(this.shelf, x));
+      this.blockSum += y * y;
+      if (++this.blockFrames === this.blockLength) this.endBlock();
+    }
+    return true;
+  }
+
+  endBlock() {
+    const meanSquare = this.blockSum / this.blockFrames;
+    this.blockSum = 0;
+    this.blockFrames = 0;
+    const gated = -0.691 + 10 * Math.log10(meanSquare) < -70;
+    this.blocks.push(gated ? null : meanSquare);
+    if (this.blocks.length > 30) this.blocks.shift();
+
+    const audible = this.blocks.filter(block => block !== null);
+    const lufs = audible.length
+      ? -0.691 + 10 * Math.log10(audible.reduce((sum, ms) => sum + ms, 0) / audible.length)
+      : null;
+    this.port.postMessage({ event: 'loudness', lufs });
+  }
+}
+`;
+
+export default LoudnessMeterWorklet;
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Ducks input 0 (the pad) under input 1 (the voice). The voice level is
+ * followed with a fast attack and a slow release; from -50 dBFS up to
+ * -20 dBFS the pad is lowered by an increasing share of `depthDb`.
+ *
+ * `{ depthDb }` sets how far the pad is lowered, 0 passes it unchanged.
+ */
+const PadSidechainWorklet = `
+class PadSidechainProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.depthDb = 0;
+    this.envelope = 0;
+    this.attack = Math.exp(-1 / (0.02 * sampleRate));
+    this.release = Math.exp(-1 / (0.4 * sampleRate));
+    this.port.onmessage = event => {
+      if (typeof event.data.depthDb === 'number') this.depthDb = event.data.depthDb;
+    };
+  }
+
+  process(inputs, outputs) {
+    const pad = inputs[0];
+    const key = inputs[1];
+    const output = outputs[0][0];
+    for (let i = 0; i < output.length; i++) {
+      let level = 0;
+      for (let c = 0; c < key.length; c++) {
+        level = Math.max(level, Math.abs(key[c][i]));
+      }
+      const coefficient = level > this.envelope ? this.attack : this.release;
+      this.envelope = coefficient * this.envelope + (1 - coefficient) * level;
+
+      let gain = 1;
+      if (this.depthDb > 0 && this.envelope > 0.00316) {
+        const levelDb = 20 * Math.log10(this.envelope);
+        const amount = Math.min(1, (levelDb + 50) / 30);
+        gain = Math.pow(10, (-this.depthDb * amount) / 20);
+      }
+      output[i] = pad.length ? pad[0][i] * gain : 0;
+    }
+    return true;
+  }
+}
+`;
+
+export default PadSidechainWorklet;
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Records its input as 16-bit mono PCM at the context's rate. Channels are
+ * averaged. Posts `{ event: 'chunk', time, int16arrayBuffer }` about four
+ * times a second, `time` being the context time of the chunk's first sample.
+ * `{ type: 'flush' }` ends the recording: what is buffered is sent, followed
+ * by `{ event: 'flushed' }`.
+ */
+const PcmCaptureWorklet = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Int16Array(Math.round(sampleRate / 4));
+    this.writeIndex = 0;
+    this.chunkTime = 0;
+    this.stopped = false;
+    this.port.onmessage = event => {
+      if (event.data.type === 'flush') {
+        if (this.writeIndex) this.send();
+        this.stopped = true;
+        this.port.postMessage({ event: 'flushed' });
+      }
+    };
+  }
+
+  process(inputs) {
+    if (this.stopped) return false;
+    const channels = inputs[0];
+    // Unconnected inputs still record silence so the timeline stays intact
+    const length = channels.length ? channels[0].length : 128;
+    for (let i = 0; i < length; i++) {
+      if (this.writeIndex === 0) this.chunkTime = currentTime + i / sampleRate;
+      let sum = 0;
+      for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+      const sample = channels.length
+        ? Math.max(-1, Math.min(1, sum / channels.length))
+        : 0;
+      this.buffer[this.writeIndex++] = Math.round(
+        sample < 0 ? sample * 32768 : sample * 32767
+      );
+      if (this.writeIndex === this.buffer.length) this.send();
+    }
+    return true;
+  }
+
+  send() {
+    const chunk = this.buffer.slice(0, this.writeIndex);
+    this.port.postMessage(
+      { event: 'chunk', time: this.chunkTime, int16arrayBuffer: chunk.buffer },
+      [chunk.buffer]
+    );
+    this.writeIndex = 0;
+  }
+}
+`;
+
+export default PcmCaptureWorklet;
@@ -0,0 +1,298 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Ring buffer playback of mono float PCM posted over the port.
+ *
+ * Messages in:
+ * - `{ type: 'pcm', samples }` appends samples at the stream's sample rate,
+ *   given as `processorOptions.sampleRate`. They are resampled to the
+ *   context's rate on output.
+ * - `{ type: 'flush', fadeMs }` fades out and drops everything buffered so
+ *   far. Samples posted after the flush are kept.
+ * - `{ type: 'config', maxLagMs, catchUpRate }` sets how far playback may
+ *   fall behind and how fast it catches up.
+ *
+ * Playback is an overlap-add of 30ms grains. At 1x the grains line up and
+ * add back to the input. Once the buffered audio exceeds `maxLagMs` the
+ * grains are taken further apart than they are played (WSOLA), which
+ * shortens the audio without changing its pitch, until the lag is down to
+ * half of `maxLagMs`.
+ *
+ * Playback starts once the jitter target is buffered, or once the buffered
+ * audio has waited that long. The target starts at `prebufferMs`, grows
+ * whenever audio arrives right after the buffer ran dry and shrinks again
+ * while playback runs smoothly.
+ *
+ * Messages out: `{ event: 'started', time }` when playback starts from
+ * silence, `{ event: 'drained' }` when the buffer runs empty or is flushed
+ * and `{ event: 'lag', lagMs, rate, jitterMs }` when the lag changes.
+ */
+const PcmPlayerWorklet = `
+class PcmPlayerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const {
+      sampleRate: inputRate = 24000,
+      prebufferMs = 100,
+      maxLagMs = 2000,
+      catchUpRate = 1.25,
+    } = options.processorOptions || {};
+    this.inputRate = inputRate;
+    // Input samples per output sample at 1x
+    this.step = inputRate / sampleRate;
+
+    this.maxLagMs = maxLagMs;
+    this.catchUpRate = catchUpRate;
+    this.speed = 1;
+
+    this.jitterMs = prebufferMs;
+    this.minJitterMs = 40;
+    this.maxJitterMs = 400;
+    this.waitedFrames = 0;
+    this.drainedAt = -Infinity;
+    this.smoothFrames = 0;
+
+    // Samples between start and end are buffered, positions are absolute
+    this.buffer = new Float32Array(inputRate * 30);
+    this.start = 0;
+    this.end = 0;
+    // Where playback continues from when it is stopped
+    this.readPos = 0;
+
+    // Grain length and hop in output samples, with a Hann window
+    this.hop = Math.round(sampleRate * 0.015);
+    this.window = new Float32Array(this.hop * 2);
+    for (let i = 0; i < this.window.length; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((Math.PI * i) / this.hop);
+    }
+    // How far a grain may be shifted to line up with the previous one
+    this.tolerance = Math.round(inputRate * 0.005);
+
+    this.playing = false;
+    // Input positions of the fading out and fading in grain
+    this.prev = 0;
+    this.cur = 0;
+    // Output samples into the current hop
+    this.t = 0;
+
+    this.flushEnd = 0;
+    this.fadeLeft = 0;
+    this.fadeTotal = 0;
+
+    this.lastLag = null;
+    this.lagInterval = Math.round(sampleRate / 4);
+    this.nextLagFrame = 0;
+
+    this.port.onmessage = event => {
+      const data = event.data;
+      if (data.type === 'pcm') this.write(data.samples);
+      if (data.type === 'flush') this.flush(data.fadeMs || 0);
+      if (data.type === 'config') {
+        if (typeof data.maxLagMs === 'number') this.maxLagMs = data.maxLagMs;
+        if (typeof data.catchUpRate === 'number') {
+          this.catchUpRate = data.catchUpRate;
+          if (this.speed > 1) this.speed = data.catchUpRate;
+        }
+      }
+    };
+  }
+
+  write(samples) {
+    if (!this.playing && currentFrame - this.drainedAt < sampleRate / 2) {
+      // The buffer ran dry in the middle of a reply
+      this.jitterMs = Math.min(this.maxJitterMs, this.jitterMs + 40);
+      this.drainedAt = -Infinity;
+    }
+    const needed = this.end - this.start + samples.length;
+    if (needed > this.buffer.length) this.grow(needed);
+    const capacity = this.buffer.length;
+    for (let i = 0; i < samples.length; i++) {
+      this.buffer[(this.end + i) % capacity] = samples[i];
+    }
+    this.end += samples.length;
+  }
+
+  grow(needed) {
+    let capacity = this.buffer.length * 2;
+    while (capacity < needed) capacity *= 2;
+    const next = new Float32Array(capacity);
+    for (let p = this.start; p < this.end; p++) {
+      next[p % capacity] = this.buffer[p % this.buffer.length];
+    }
+    this.buffer = next;
+  }
+
+  sample(x) {
+    if (x < this.start || x >= this.end) return 0;
+    const i = Math.floor(x);
+    const s0 = this.buffer[i % this.buffer.length];
+    if (i + 1 >= this.end) return s0;
+    const s1 = this.buffer[(i + 1) % this.buffer.length];
+    return s0 + (s1 - s0) * (x - i);
+  }
+
+  lagMs() {
+    const position = this.playing ? this.cur + this.t * this.step : this.readPos;
+    return Math.max(0, ((this.end - position) / this.inputRate) * 1000);
+  }
+
+  flush(fadeMs) {
+    this.flushEnd = this.end;
+    this.fadeTotal = this.playing ? Math.round((fadeMs / 1000) * sampleRate) : 0;
+    this.fadeLeft = this.fadeTotal;
+    if (!this.fadeLeft) this.endFlush();
+  }
+
+  endFlush() {
+    this.fadeLeft = 0;
+    this.readPos = Math.max(this.readPos, this.flushEnd);
+    this.start = this.readPos;
+    this.speed = 1;
+    this.waitedFrames = 0;
+    if (this.playing) {
+      this.playing = false;
+      this.port.postMessage({ event: 'drained' });
+    }
+  }
+
+  drain() {
+    this.playing = false;
+    this.fadeLeft = 0;
+    this.readPos = this.end;
+    this.start = this.end;
+    this.speed = 1;
+    this.drainedAt = currentFrame;
+    this.port.postMessage({ event: 'drained' });
+  }
+
+  maybeStart(frames) {
+    const buffered = this.end - this.readPos;
+    if (buffered <= 0) return false;
+    this.waitedFrames += frames;
+    const targetMs = Math.min(this.jitterMs, this.maxLagMs);
+    if (
+      (buffered / this.inputRate) * 1000 < targetMs &&
+      (this.waitedFrames / sampleRate) * 1000 < targetMs
+    ) {
+      return false;
+    }
+    this.playing = true;
+    this.waitedFrames = 0;
+    this.smoothFrames = 0;
+    this.start = this.readPos;
+    this.cur = this.readPos;
+    // A virtual grain before the first one keeps the onset at full level
+    this.prev = this.cur - this.hop * this.step;
+    this.t = 0;
+    this.port.postMessage({ event: 'started', time: currentTime });
+    return true;
+  }
+
+  advance() {
+    const prev = this.cur;
+    const natural = prev + this.hop * this.step;
+    const nominal = prev + this.hop * this.step * this.speed;
+    if (nominal >= this.end) {
+      this.drain();
+      return false;
+    }
+    this.prev = prev;
+    this.cur = this.speed === 1 ? nominal : this.align(natural, nominal);
+    this.t = 0;
+    this.start = Math.max(this.start, Math.floor(prev));
+
+    const lagMs = this.lagMs();
+    if (this.speed === 1 && lagMs > this.maxLagMs) {
+      this.speed = this.catchUpRate;
+    } else if (
+      this.speed > 1 &&
+      lagMs <= Math.max(this.maxLagMs / 2, this.jitterMs)
+    ) {
+      this.speed = 1;
+    }
+    return true;
+  }
+
+  // Picks the grain position near nominal that best continues the waveform
+  // the previous grain would have continued with
+  align(natural, nominal) {
+    const length = this.hop * this.step;
+    const grainLength = 2 * length;
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let k = -this.tolerance; k <= this.tolerance; k += 2) {
+      const candidate = nominal + k;
+      if (candidate < this.start || candidate + grainLength > this.end) continue;
+      let score = 0;
+      for (let i = 0; i < length; i += 4) {
+        score += this.sample(natural + i) * this.sample(candidate + i);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0][0];
+
+    if (this.playing || this.maybeStart(output.length)) {
+      for (let i = 0; i < output.length; i++) {
+        if (this.t === this.hop && !this.advance()) break;
+        const t = this.t++;
+        let sample =
+          this.window[t + this.hop] *
+            this.sample(this.prev + (t + this.hop) * this.step) +
+          this.window[t] * this.sample(this.cur + t * this.step);
+        if (this.fadeLeft > 0) {
+          sample *= this.fadeLeft / this.fadeTotal;
+          if (--this.fadeLeft === 0) {
+            output[i] = sample;
+            this.endFlush();
+            break;
+          }
+        }
+        output[i] = sample;
+      }
+
+      // Relax the jitter target after each second without running dry
+      this.smoothFrames += output.length;
+      if (this.smoothFrames >= sampleRate) {
+        this.smoothFrames = 0;
+        this.jitterMs = Math.max(this.minJitterMs, this.jitterMs - 5);
+      }
+    }
+
+    this.reportLag();
+    return true;
+  }
+
+  reportLag() {
+    if (currentFrame < this.nextLagFrame) return;
+    this.nextLagFrame = currentFrame + this.lagInterval;
+    const lag = {
+      lagMs: Math.round(this.lagMs()),
+      rate: this.speed,
+      jitterMs: this.jitterMs,
+    };
+    const last = this.lastLag;
+    if (
+      last &&
+      last.lagMs === lag.lagMs &&
+      last.rate === lag.rate &&
+      last.jitterMs === lag.jitterMs
+    ) {
+      return;
+    }
+    this.lastLag = lag;
+    this.port.postMessage({ event: 'lag', ...lag });
+  }
+}
+`;
+
+export default PcmPlayerWorklet;
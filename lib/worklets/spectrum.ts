@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Energy of its input in log-spaced bands from 100 Hz to 8 kHz, through a
+ * bank of bandpass filters of two sections each for steeper edges.
+ * `processorOptions.bandCount` sets the number of bands, 8 by default.
+ *
+ * Posts `{ event: 'bands', bands }` about 30 times a second. Each band is
+ * its RMS level mapped from -70..-10 dBFS to 0..1, falling back slowly
+ * after a peak so bars do not flicker.
+ */
+const SpectrumWorklet = `
+class SpectrumProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { bandCount = 8 } = (options && options.processorOptions) || {};
+    const low = 100;
+    const high = Math.min(8000, sampleRate * 0.45);
+    const ratio = Math.pow(high / low, 1 / Math.max(1, bandCount - 1));
+    // About one band wide, neighbouring bands overlap at their edges
+    const q = Math.sqrt(ratio) / (ratio - 1);
+    this.filters = [];
+    for (let i = 0; i < bandCount; i++) {
+      const frequency = low * Math.pow(ratio, i);
+      this.filters.push([this.bandpass(frequency, q), this.bandpass(frequency, q)]);
+    }
+    this.sums = new Float64Array(bandCount);
+    this.levels = new Float32Array(bandCount);
+    this.frames = 0;
+    this.interval = Math.round(sampleRate / 30);
+  }
+
+  bandpass(frequency, q) {
+    const w = (2 * Math.PI * frequency) / sampleRate;
+    const alpha = Math.sin(w) / (2 * q);
+    const a0 = 1 + alpha;
+    return {
+      b0: alpha / a0,
+      b2: -alpha / a0,
+      a1: (-2 * Math.cos(w)) / a0,
+      a2: (1 - alpha) / a0,
+      x1: 0, x2: 0, y1: 0, y2: 0,
+    };
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels.length) return true;
+    const samples = channels[0];
+    for (let i = 0; i < samples.length; i++) {
+      for (let b = 0; b < this.filters.length; b++) {
+        let y = samples[i];
+        for (const f of this.filters[b]) {
+          const x = y;
+          y = f.b0 * x + f.b2 * f.x2 - f.a1 * f.y1 - f.a2 * f.y2;
+          f.x2 = f.x1;
+          f.x1 = x;
+          f.y2 = f.y1;
+          f.y1 = y;
+        }
+        this.sums[b] += y * y;
+      }
+    }
+    this.frames += samples.length;
+    if (this.frames >= this.interval) this.report();
+    return true;
+  }
+
+  report() {
+    const bands = new Array(this.filters.length);
+    for (let b = 0; b < bands.length; b++) {
+      const rms = Math.sqrt(this.sums[b] / this.frames);
+      const db = 20 * Math.log10(rms + 1e-9);
+      const level = Math.max(0, Math.min(1, (db + 70) / 60));
+      this.levels[b] = Math.max(level, this.levels[b] * 0.8);
+      bands[b] = this.levels[b];
+      this.sums[b] = 0;
+    }
+    this.frames = 0;
+    this.port.postMessage({ event: 'bands', bands });
+  }
+}
+`;
+
+export default SpectrumWorklet;
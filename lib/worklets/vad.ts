@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Energy based voice activity detector. The input level is measured over
+ * 20ms frames; speech starts once the level stays above the threshold for
+ * `attackMs` and ends after it stayed below for `hangoverMs`. Posts
+ * `{ event: 'speech', speaking }` on every transition.
+ */
+const VadWorklet = `
+class VadProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.thresholdDb = -45;
+    this.attackMs = 60;
+    this.hangoverMs = 600;
+
+    this.frameLength = Math.round(sampleRate / 50);
+    this.frameSum = 0;
+    this.frameCount = 0;
+
+    this.speaking = false;
+    // Milliseconds the level has been on the other side of the threshold
+    this.aboveMs = 0;
+    this.belowMs = 0;
+
+    this.port.onmessage = event => {
+      const { thresholdDb, attackMs, hangoverMs } = event.data;
+      if (typeof thresholdDb === 'number') this.thresholdDb = thresholdDb;
+      if (typeof attackMs === 'number') this.attackMs = attackMs;
+      if (typeof hangoverMs === 'number') this.hangoverMs = hangoverMs;
+    };
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (input.length) {
+      const samples = input[0];
+      for (let i = 0; i < samples.length; i++) {
+        this.frameSum += samples[i] * samples[i];
+        if (++this.frameCount >= this.frameLength) {
+          this.endFrame();
+        }
+      }
+    }
+    return true;
+  }
+
+  endFrame() {
+    const rms = Math.sqrt(this.frameSum / this.frameCount);
+    const db = 20 * Math.log10(rms + 1e-9);
+    const frameMs = (this.frameCount / sampleRate) * 1000;
+    this.frameSum = 0;
+    this.frameCount = 0;
+
+    if (db >= this.thresholdDb) {
+      this.aboveMs += frameMs;
+      this.belowMs = 0;
+    } else {
+      this.belowMs += frameMs;
+      this.aboveMs = 0;
+    }
+
+    if (!this.speaking && this.aboveMs >= this.attackMs) {
+      this.speaking = true;
+      this.port.postMessage({ event: 'speech', speaking: true });
+    } else if (this.speaking && this.belowMs >= this.hangoverMs) {
+      this.speaking = false;
+      this.port.postMessage({ event: 'speech', speaking: false });
+    }
+  }
+}
+`;
+
+export default VadWorklet;
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import type { Plugin } from 'vite';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  MOCK_SCENARIOS,
+  MockAction,
+  MockScenario,
+  MockTrigger,
+} from './mock-scenarios';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+// Model audio is delivered in 100ms parts, like the real service
+const AUDIO_PART_MS = 100;
+
+export type MockLiveServerOptions = {
+  // Path the WebSocket endpoint is mounted on
+  path: string;
+  // Scenario used when the client does not pick one via `?scenario=`
+  scenario?: string;
+};
+
+/**
+ * Renders a sine tone as base64 16-bit little-endian PCM at 24kHz.
+ */
+function tone(durationMs: number, frequency: number) {
+  const samples = Math.round((durationMs / 1000) * OUTPUT_SAMPLE_RATE);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE);
+    pcm.writeInt16LE(Math.round(value * 0.3 * 32767), i * 2);
+  }
+  return pcm.toString('base64');
+}
+
+/**
+ * Drives one client connection through a scenario. Cues fire on client
+ * message counts only, so a scenario replays identically on every run.
+ */
+class MockLiveSession {
+  private counts: Record<MockTrigger, number> = {
+    setup: 0,
+    realtimeInput: 0,
+    clientContent: 0,
+    toolResponse: 0,
+  };
+  // Actions run strictly in order, even when cues overlap
+  private queue: Promise<void> = Promise.resolve();
+  private resumable = false;
+  private handleCount = 0;
+
+  constructor(
+    private ws: WebSocket,
+    private scenario: MockScenario
+  ) {
+    ws.on('message', raw => this.onClientMessage(raw.toString()));
+  }
+
+  private onClientMessage(raw: string) {
+    let message: Record<string, any>;
+    try {
+      message = JSON.parse(raw);
+    } catch (e) {
+      this.ws.close(1007, 'Invalid JSON');
+      return;
+    }
+
+    const trigger = (Object.keys(this.counts) as MockTrigger[]).find(
+      key => key in message
+    );
+    if (!trigger) return;
+
+    if (trigger === 'setup') {
+      this.resumable = Boolean(message.setup?.config?.sessionResumption);
+    }
+    const count = ++this.counts[trigger];
+
+    for (const cue of this.scenario.cues) {
+      if (cue.on !== trigger) continue;
+      const every = cue.count ?? 1;
+      const fires = cue.repeat ? count % every === 0 : count === every;
+      if (fires) {
+        this.queue = this.queue.then(() => this.run(cue.actions));
+      }
+    }
+  }
+
+  private send(message: object) {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private async run(actions: MockAction[]) {
+    for (const action of actions) {
+      if (this.ws.readyState !== WebSocket.OPEN) return;
+      await this.perform(action);
+    }
+  }
+
+  private async perform(action: MockAction) {
+    switch (action.type) {
+      case 'wait':
+        await new Promise(resolve => setTimeout(resolve, action.ms));
+        break;
+      case 'setupComplete':
+        this.send({ setupComplete: {} });
+        if (this.resumable) {
+          this.send({
+            sessionResumptionUpdate: {
+              newHandle: `mock-handle-${++this.handleCount}`,
+              resumable: true,
+            },
+          });
+        }
+        break;
+      case 'audio': {
+        const parts = Math.ceil(action.durationMs / AUDIO_PART_MS);
+        for (let i = 0; i < parts; i++) {
+          this.send({
+            serverContent: {
+              modelTurn: {
+                parts: [
+                  {
+                    inlineData: {
+                      mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`,
+                      data: tone(AUDIO_PART_MS, action.frequency ?? 440),
+                    },
+                  },
+                ],
+              },
+            },
+          });
+        }
+        break;
+      }
+      case 'inputTranscription':
+      case 'outputTranscription':
+        this.send({
+          serverContent: { [action.type]: { text: action.text } },
+        });
+        break;
+      case 'text':
+        this.send({
+          serverContent: { modelTurn: { parts: [{ text: action.text }] } },
+        });
+        break;
+      case 'toolCall':
+        this.send({ toolCall: { functionCalls: action.functionCalls } });
+        break;
+      case 'interrupted':
+        this.send({ serverContent: { interrupted: true } });
+        break;
+      case 'turnComplete':
+        this.send({ serverContent: { turnComplete: true } });
+        break;
+      case 'goAway':
+        this.send({ goAway: { timeLeft: action.timeLeft } });
+        break;
+      case 'close':
+        this.ws.close(action.code ?? 1000, action.reason);
+        break;
+    }
+  }
+}
+
+/**
+ * Vite plugin serving a local stand-in for the Live API WebSocket, so the app
+ * can be developed and exercised without a key or network access.
+ */
+export function mockLiveServer(options: MockLiveServerOptions): Plugin {
+  return {
+    name: 'mock-live-server',
+    configureServer(server) {
+      const wss = new WebSocketServer({ noServer: true });
+
+      server.httpServer?.on(
+        'upgrade',
+        (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+          const url = new URL(req.url || '/', 'http://localhost');
+          if (url.pathname !== options.path) return;
+
+          const name =
+            url.searchParams.get('scenario') || options.scenario || 'default';
+          const scenario = MOCK_SCENARIOS[name];
+          if (!scenario) {
+            server.config.logger.warn(`[mock-live] unknown scenario "${name}"`);
+            socket.destroy();
+            return;
+          }
+
+          wss.handleUpgrade(req, socket, head, ws => {
+            server.config.logger.info(`[mock-live] session with "${name}"`);
+            new MockLiveSession(ws, scenario);
+          });
+        }
+      );
+    },
+  };
+}
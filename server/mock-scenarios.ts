@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FunctionCall } from '@google/genai';
+
+/**
+ * Client messages a scenario cue can react to.
+ */
+export type MockTrigger =
+  | 'setup'
+  | 'realtimeInput'
+  | 'clientContent'
+  | 'toolResponse';
+
+/**
+ * A single step the mock server performs. Everything except `wait` and
+ * `close` is sent as the matching LiveServerMessage shape.
+ */
+export type MockAction =
+  | { type: 'wait'; ms: number }
+  | { type: 'setupComplete' }
+  | { type: 'audio'; durationMs: number; frequency?: number }
+  | { type: 'inputTranscription'; text: string }
+  | { type: 'outputTranscription'; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'toolCall'; functionCalls: FunctionCall[] }
+  | { type: 'interrupted' }
+  | { type: 'turnComplete' }
+  | { type: 'goAway'; timeLeft: string }
+  | { type: 'close'; code?: number; reason?: string };
+
+/**
+ * Runs `actions` on the `count`-th occurrence of `on` (1 by default),
+ * or on every multiple of `count` when `repeat` is set.
+ */
+export interface MockCue {
+  on: MockTrigger;
+  count?: number;
+  repeat?: boolean;
+  actions: MockAction[];
+}
+
+export interface MockScenario {
+  description: string;
+  cues: MockCue[];
+}
+
+const speak = (
+  source: string,
+  interpretation: string,
+  durationMs = 1500
+): MockAction[] => [
+  { type: 'inputTranscription', text: source },
+  { type: 'outputTranscription', text: interpretation },
+  { type: 'audio', durationMs },
+  { type: 'turnComplete' },
+];
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  default: {
+    description: 'Answers every ~3s of realtime input with a short spoken turn.',
+    cues: [
+      { on: 'setup', actions: [{ type: 'setupComplete' }] },
+      {
+        on: 'realtimeInput',
+        count: 24,
+        repeat: true,
+        actions: speak('Source speech.', 'Interpreted speech.'),
+      },
+    ],
+  },
+  interruption: {
+    description:
+      'Starts a long turn and interrupts it halfway, then speaks again.',
+    cues: [
+      { on: 'setup', actions: [{ type: 'setupComplete' }] },
+      {
+        on: 'realtimeInput',
+        count: 4,
+        actions: [
+          { type: 'inputTranscription', text: 'Welcome to the keynote.' },
+          { type: 'outputTranscription', text: 'Welkom bij de keynote.' },
+          { type: 'audio', durationMs: 4000, frequency: 330 },
+          { type: 'wait', ms: 1200 },
+          { type: 'interrupted' },
+          { type: 'wait', ms: 300 },
+          ...speak('Sorry, let me start over.', 'Sorry, ik begin opnieuw.'),
+        ],
+      },
+    ],
+  },
+  'tool-call': {
+    description: 'Requests a function call and continues after the response.',
+    cues: [
+      { on: 'setup', actions: [{ type: 'setupComplete' }] },
+      {
+        on: 'realtimeInput',
+        count: 4,
+        actions: [
+          {
+            type: 'toolCall',
+            functionCalls: [
+              {
+                id: 'mock-call-1',
+                name: 'get_order_status',
+                args: { orderId: '1234' },
+              },
+            ],
+          },
+        ],
+      },
+      {
+        on: 'toolResponse',
+        actions: speak('Where is my order?', 'Your order has shipped.'),
+      },
+    ],
+  },
+  'go-away': {
+    description: 'Announces a disconnect, then drops the socket.',
+    cues: [
+      { on: 'setup', actions: [{ type: 'setupComplete' }] },
+      {
+        on: 'realtimeInput',
+        count: 8,
+        actions: [
+          { type: 'goAway', timeLeft: '5s' },
+          { type: 'wait', ms: 5000 },
+          { type: 'close', code: 1001, reason: 'Session expired' },
+        ],
+      },
+    ],
+  },
+};
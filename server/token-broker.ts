@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI } from '@google/genai';
+import type { Plugin } from 'vite';
+
+// Sessions opened with a token are rejected after this long
+const TOKEN_TTL_MS = 30 * 60 * 1000;
+// New sessions, reconnects and rollovers can use a token for this long
+const NEW_SESSION_TTL_MS = 5 * 60 * 1000;
+
+export type TokenBrokerOptions = {
+  // Path the endpoint is mounted on
+  path: string;
+  // Key used to mint tokens, it stays on the server
+  apiKey: string;
+};
+
+/**
+ * Stand-in for the token broker a public deployment runs next to the app.
+ * `POST <path>` mints an ephemeral Live API token and answers with
+ * `{ token, newSessionExpireTime }`.
+ *
+ * Tokens can open any number of sessions until they expire, so language
+ * channels and reconnects share one token. A production broker should also
+ * authenticate its callers and rate-limit them.
+ */
+export function tokenBroker(options: TokenBrokerOptions): Plugin {
+  const ai = new GoogleGenAI({ apiKey: options.apiKey });
+
+  return {
+    name: 'token-broker',
+    configureServer(server) {
+      server.middlewares.use(options.path, async (req, res) => {
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+
+        const now = Date.now();
+        const newSessionExpireTime = new Date(
+          now + NEW_SESSION_TTL_MS
+        ).toISOString();
+        try {
+          const token = await ai.authTokens.create({
+            config: {
+              uses: 0,
+              expireTime: new Date(now + TOKEN_TTL_MS).toISOString(),
+              newSessionExpireTime,
+              httpOptions: { apiVersion: 'v1alpha' },
+            },
+          });
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ token: token.name, newSessionExpireTime }));
+        } catch (e: any) {
+          server.config.logger.error(
+            `[token-broker] could not create token: ${e?.message || e}`
+          );
+          res.statusCode = 502;
+          res.end();
+        }
+      });
+    },
+  };
+}
@@ -1,6 +1,9 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { mockLiveServer } from './server/mock-live-server';
+import { tokenBroker } from './server/token-broker';
+import { MOCK_LIVE_PATH, TOKEN_BROKER_PATH } from './lib/constants';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +12,23 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        env.LIVE_MOCK &&
+          mockLiveServer({
+            path: MOCK_LIVE_PATH,
+            scenario: env.LIVE_MOCK_SCENARIO,
+          }),
+        // The key stays on the dev server, the browser only sees tokens
+        env.GEMINI_API_KEY &&
+          !env.LIVE_TOKEN_BROKER_URL &&
+          tokenBroker({ path: TOKEN_BROKER_PATH, apiKey: env.GEMINI_API_KEY }),
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.LIVE_TOKEN_BROKER_URL': JSON.stringify(
+          env.LIVE_TOKEN_BROKER_URL || TOKEN_BROKER_PATH
+        ),
+        'process.env.LIVE_MOCK': JSON.stringify(env.LIVE_MOCK || '')
       },
       resolve: {
         alias: {